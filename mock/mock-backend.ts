@@ -0,0 +1,217 @@
+import type { Plugin } from "vite";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Folder with the form fixtures. `forms/<formId>.json` is served as the form with that ID.
+ */
+const formsDirectory = fileURLToPath(new URL("./forms/", import.meta.url))
+
+/**
+ * Files received by the mock upload endpoint, keyed by the ID returned to the client.
+ */
+const uploads = new Map<string, { size: number, contentType: string }>()
+
+/**
+ * Responses received by the mock respond endpoint, keyed by form ID.
+ */
+const responses = new Map<string, unknown[]>()
+
+/**
+ * Events received by the mock analytics endpoint, in the order they arrived.
+ */
+const analyticsEvents: unknown[] = []
+
+/**
+ * `Idempotency-Key` headers of the responses that were stored, so that a response sent again isn't stored twice.
+ */
+const idempotencyKeys = new Set<string>()
+
+/**
+ * Settings of `mockBackend`.
+ *
+ * - `apiKey` - The `aKey` header that requests must have. Defaults to `mock-key`.
+ */
+export type MockBackendOptions = {
+    apiKey?: string
+}
+
+/**
+ * Local stand-in for the KM backend, served by the Vite dev server.
+ *
+ * Endpoints:
+ * - `GET /mock/form/find?formId=<id>` - replies with the fixture `mock/forms/<id>.json`.
+ * - `PUT /mock/form/respond?formId=<id>` - stores the `FormResponse` in the body and replies with `204`. A response
+ * with an `Idempotency-Key` that was already stored is not stored again, but also gets `204`. Replies with
+ * `410` if the form's `stillAccepting` is `false` or the current time is outside `opensAt` and `closesAt`.
+ * - `GET /mock/form/responses?formId=<id>` - replies with every response stored for the form since the server started.
+ * - `POST /mock/upload` - accepts a `multipart/form-data` file upload and replies with `{ "id": string }`.
+ * - `POST /mock/analytics` - stores a batch of analytics events sent by `createBeaconAnalytics` and replies with
+ * `204`. `GET /mock/analytics` replies with every event stored since the server started.
+ *
+ * Every endpoint replies with `401` unless the `aKey` header, or the `aKey` query parameter since beacons can't send
+ * headers, is `options.apiKey`.
+ *
+ * Add these query parameters to any endpoint to simulate other behaviour of the backend:
+ * - `delay=<ms>` - waits before replying.
+ * - `status=<code>` - replies with that status instead, e.g. `status=500`.
+ * - `closed=true` - treats the form as closed.
+ * - `opensAt=<date>` and `closesAt=<date>` - replace the schedule of the form, e.g. to try the countdown.
+ *
+ * Only active during `vite dev`. Nothing is added to production builds. Open `/mock/preview.html?formId=demo` to fill
+ * out a fixture against these endpoints.
+ *
+ * @example
+ * <KMFormView restFetchUrl="/mock/form/find?formId=demo&delay=2000" restSubmitUrl="/mock/form/respond?formId=demo"
+ *             restUploadUrl="/mock/upload" apiKey="mock-key" />
+ * @see createKMClient
+ * @see uploadFile
+ */
+export default function mockBackend(options: MockBackendOptions = {}): Plugin {
+    const apiKey = options.apiKey ?? "mock-key"
+
+    return {
+        name: "km-mock-backend",
+        apply: "serve",
+        configureServer(server) {
+            server.middlewares.use("/mock/form/find", simulate(apiKey, handleFind))
+            server.middlewares.use("/mock/form/respond", simulate(apiKey, handleRespond))
+            server.middlewares.use("/mock/form/responses", simulate(apiKey, handleResponses))
+            server.middlewares.use("/mock/upload", simulate(apiKey, handleUpload))
+            server.middlewares.use("/mock/analytics", simulate(apiKey, handleAnalytics))
+        }
+    }
+}
+
+type _Handler = (req: IncomingMessage, res: ServerResponse, query: URLSearchParams) => Promise<void>
+
+/**
+ * Wraps a handler with the `aKey` check and the `delay`, `status` and `closed` query parameters.
+ *
+ * @private
+ */
+function simulate(apiKey: string, handler: _Handler) {
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        const query = new URL(req.url ?? "", "http://localhost").searchParams
+
+        const delay = Number(query.get("delay") ?? 0)
+        if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay))
+
+        const status = Number(query.get("status") ?? 0)
+        if (status > 0) return sendJson(res, status, { error: `Simulated status ${status}` })
+
+        if ((req.headers["akey"] ?? query.get("aKey")) != apiKey) return sendJson(res, 401, { error: "Missing or wrong aKey header" })
+
+        try {
+            await handler(req, res, query)
+        } catch (e) {
+            sendJson(res, 500, { error: String(e) })
+        }
+    }
+}
+
+/**
+ * Reads the fixture of a form. Fixtures are read on every request, so edits show up without restarting the server.
+ *
+ * @returns `undefined` if there is no fixture for `formId`.
+ * @private
+ */
+async function loadForm(formId: string | null, query: URLSearchParams) {
+    if (formId == null || !/^[\w-]+$/.test(formId)) return undefined
+    try {
+        const form = JSON.parse(await readFile(formsDirectory + formId + ".json", "utf-8"))
+        if (query.get("closed") == "true") form.stillAccepting = false
+        if (query.has("opensAt")) form.opensAt = query.get("opensAt")
+        if (query.has("closesAt")) form.closesAt = query.get("closesAt")
+        return form as { id: string, stillAccepting: boolean, opensAt?: string, closesAt?: string }
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code == "ENOENT") return undefined
+        throw e
+    }
+}
+
+async function handleFind(req: IncomingMessage, res: ServerResponse, query: URLSearchParams) {
+    if (req.method != "GET") return sendJson(res, 405, { error: "Method not allowed" })
+
+    const form = await loadForm(query.get("formId"), query)
+    if (form == undefined) return sendJson(res, 404, { error: `No fixture for form "${query.get("formId")}"` })
+    sendJson(res, 200, form)
+}
+
+async function handleRespond(req: IncomingMessage, res: ServerResponse, query: URLSearchParams) {
+    if (req.method != "PUT") return sendJson(res, 405, { error: "Method not allowed" })
+
+    const form = await loadForm(query.get("formId"), query)
+    if (form == undefined) return sendJson(res, 404, { error: `No fixture for form "${query.get("formId")}"` })
+    const now = Date.now()
+    if (!form.stillAccepting || (form.opensAt != undefined && now < Date.parse(form.opensAt)) ||
+        (form.closesAt != undefined && now >= Date.parse(form.closesAt))) {
+        return sendJson(res, 410, { error: "This form is closed" })
+    }
+
+    let body = ""
+    for await (const chunk of req) body += chunk
+
+    let response: { formId?: unknown, questionResponses?: unknown }
+    try {
+        response = JSON.parse(body)
+    } catch (e) {
+        return sendJson(res, 400, { error: "The body is not valid JSON" })
+    }
+    if (response.formId != form.id || !Array.isArray(response.questionResponses)) {
+        return sendJson(res, 422, { error: "The body is not a FormResponse for this form" })
+    }
+
+    const key = req.headers["idempotency-key"]
+    const idempotencyKey = typeof key == "string" ? `${form.id}:${key}` : undefined
+    if (idempotencyKey == undefined || !idempotencyKeys.has(idempotencyKey)) {
+        responses.set(form.id, [...(responses.get(form.id) ?? []), { ...response, receivedAt: new Date().toISOString() }])
+        if (idempotencyKey != undefined) idempotencyKeys.add(idempotencyKey)
+    }
+    res.statusCode = 204
+    res.end()
+}
+
+async function handleResponses(req: IncomingMessage, res: ServerResponse, query: URLSearchParams) {
+    if (req.method != "GET") return sendJson(res, 405, { error: "Method not allowed" })
+    sendJson(res, 200, responses.get(query.get("formId") ?? "") ?? [])
+}
+
+async function handleUpload(req: IncomingMessage, res: ServerResponse) {
+    if (req.method != "POST") return sendJson(res, 405, { error: "Method not allowed" })
+
+    let size = 0
+    for await (const chunk of req) size += chunk.length
+
+    const id = randomUUID()
+    uploads.set(id, { size: size, contentType: req.headers["content-type"] ?? "" })
+    sendJson(res, 201, { id: id })
+}
+
+async function handleAnalytics(req: IncomingMessage, res: ServerResponse) {
+    if (req.method == "GET") return sendJson(res, 200, analyticsEvents)
+    if (req.method != "POST") return sendJson(res, 405, { error: "Method not allowed" })
+
+    let body = ""
+    for await (const chunk of req) body += chunk
+
+    let events: unknown
+    try {
+        events = JSON.parse(body)
+    } catch (e) {
+        return sendJson(res, 400, { error: "The body is not valid JSON" })
+    }
+    if (!Array.isArray(events)) return sendJson(res, 422, { error: "The body is not an array of events" })
+
+    analyticsEvents.push(...events)
+    res.statusCode = 204
+    res.end()
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.statusCode = status
+    res.setHeader("Content-Type", "application/json")
+    res.end(JSON.stringify(body))
+}
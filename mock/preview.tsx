@@ -0,0 +1,22 @@
+/* @refresh reload */
+import { render } from "solid-js/web";
+
+import "../src/index.css";
+import KMFormView from "../src/components/KMFormView";
+
+/**
+ * Development page that displays a fixture from `mock/forms/` through the mock backend, e.g.
+ * `http://localhost:3000/mock/preview.html?formId=demo`.
+ *
+ * Every query parameter of the page is passed on to the mock endpoints, so `?formId=demo&delay=2000` or
+ * `?formId=demo&closesAt=...` simulate a slow backend or a schedule.
+ *
+ * @see mockBackend
+ */
+const query = new URLSearchParams(location.search)
+if (!query.has("formId")) query.set("formId", "demo")
+
+render(() =>
+    <KMFormView restFetchUrl={`/mock/form/find?${query}`} restSubmitUrl={`/mock/form/respond?${query}`}
+                restUploadUrl="/mock/upload" apiKey="mock-key" />,
+    document.getElementById("root")!)
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createKMClient } from "./client"
+import { KMAbortError, KMApiError, KMFormSchemaError, KMTimeoutError } from "./errors"
+
+/**
+ * Stubs `fetch` with a reply that sends its headers and then `chunks`, and stalls afterwards unless `end` is set. Like
+ * a real reply, the body fails once the request's signal is aborted.
+ */
+function stubFetch(chunks: string[], end = false) {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                chunks.forEach((chunk) => controller.enqueue(new TextEncoder().encode(chunk)))
+                if (end) controller.close()
+                init.signal?.addEventListener("abort", () => controller.error(new DOMException("Aborted", "AbortError")))
+            }
+        })
+        return new Response(body, { status: 200, headers: { "Content-Type": "application/json" } })
+    })
+    vi.stubGlobal("fetch", fetch)
+    return fetch
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe("createKMClient", () => {
+    it("times out while the body of a reply is stalling", async () => {
+        stubFetch(["{\"id\":"])
+        const client = createKMClient({ timeout: 50 })
+        await expect(client.fetchForm("f")).rejects.toBeInstanceOf(KMTimeoutError)
+    })
+
+    it("reports an abort while the body is read as an abort", async () => {
+        stubFetch(["{\"id\":"])
+        const controller = new AbortController()
+        const form = createKMClient().fetchForm("f", { signal: controller.signal })
+        setTimeout(() => controller.abort(), 10)
+        await expect(form).rejects.toBeInstanceOf(KMAbortError)
+    })
+
+    it("reports a body that isn't JSON", async () => {
+        stubFetch(["<html>"], true)
+        const error = await createKMClient().fetchForm("f").catch((e) => e)
+        expect(error).toBeInstanceOf(KMApiError)
+        expect(error.message).toBe("The backend replied with a form that is not valid JSON")
+    })
+
+    it("reports a null form as a schema error", async () => {
+        stubFetch(["null"], true)
+        await expect(createKMClient().fetchForm("f")).rejects.toBeInstanceOf(KMFormSchemaError)
+    })
+
+    it("only sends an API key that was given", async () => {
+        const fetch = stubFetch([], true)
+        await createKMClient().submitResponse({ formId: "f", questionResponses: [] })
+        await createKMClient({ apiKey: "key" }).submitResponse({ formId: "f", questionResponses: [] })
+
+        const headers = fetch.mock.calls.map(([, init]) => init.headers as Record<string, string>)
+        expect(headers[0]).not.toHaveProperty("aKey")
+        expect(headers[1]).toHaveProperty("aKey", "key")
+    })
+})
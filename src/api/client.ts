@@ -0,0 +1,219 @@
+import {FormResponse} from "../components/KMTypes";
+import {parseForm} from "../lib/form-schema";
+import {errorForStatus, KMAbortError, KMApiError, KMNetworkError, KMServerError, KMTimeoutError} from "./errors";
+
+const defaultBaseUrl = "https://kam-backend.vercel.app/"
+
+/**
+ * Settings of a `KMClient`.
+ *
+ * - `baseUrl` - Endpoints are resolved against this URL. Defaults to the KM backend.
+ * - `apiKey` - Sent to the backend as the `aKey` header. Not sent if left out.
+ * - `headers` - Extra headers sent with every request, e.g. an `Authorization` header.
+ * - `endpoints` - Paths, or full URLs, of the endpoints. `{formId}` is replaced by the ID of the form.
+ * Default to `form/find?formId={formId}` and `form/respond?formId={formId}`.
+ * - `timeout` - Milliseconds to wait for a reply before giving up. Defaults to `15000`.
+ * - `attempts` - Total number of attempts when submitting a response, including the first one. Defaults to `3`.
+ * - `retryDelay` - Milliseconds to wait before the first retry. Doubled after every retry. Defaults to `1000`.
+ */
+export type KMClientConfig = {
+    baseUrl?: string,
+    apiKey?: string,
+    headers?: Record<string, string>,
+    endpoints?: {
+        form?: string,
+        respond?: string
+    },
+    timeout?: number,
+    attempts?: number,
+    retryDelay?: number
+}
+
+/**
+ * Options of a single request.
+ *
+ * - `signal` - Cancels the request when aborted. The request then fails with `KMAbortError`.
+ */
+export type KMRequestOptions = {
+    signal?: AbortSignal
+}
+
+/**
+ * Options of `submitResponse`.
+ *
+ * - `idempotencyKey` - Sent as the `Idempotency-Key` header of every attempt. The backend records a response only once
+ * per key, so a response that is sent again, e.g. after a reply was lost, is not recorded twice.
+ */
+export type KMSubmitOptions = KMRequestOptions & {
+    idempotencyKey?: string
+}
+
+export type KMClient = ReturnType<typeof createKMClient>
+
+/**
+ * Creates a client for the KM backend.
+ *
+ * Every method throws a subclass of `KMApiError` if the request fails, so callers can tell a network failure apart
+ * from a rejected API key, a closed form, rejected answers or a failing backend.
+ *
+ * @example
+ * const client = createKMClient({ apiKey: "..." })
+ * const form = await client.fetchForm("my-form")
+ * await client.submitResponse({ formId: form.id, questionResponses: [...] })
+ *
+ * @param config
+ * @see KMApiError
+ * @since 0.0.0
+ */
+export function createKMClient(config: KMClientConfig = {}) {
+    const timeout = config.timeout ?? 15000
+
+    function endpoint(template: string, formId: string) {
+        return new URL(template.replace("{formId}", encodeURIComponent(formId)), config.baseUrl ?? defaultBaseUrl).toString()
+    }
+
+    /**
+     * Sends a request and returns the status and body of the reply if its status is `2xx`.
+     *
+     * The body is read here, so that `timeout` and `options.signal` also cover a backend that stalls while sending it.
+     *
+     * @throws KMApiError
+     */
+    async function request(url: string, init: RequestInit, options?: KMRequestOptions) {
+        const controller = new AbortController()
+        let timedOut = false
+        const timer = setTimeout(() => {
+            timedOut = true
+            controller.abort()
+        }, timeout)
+        const cancel = () => controller.abort()
+        options?.signal?.addEventListener("abort", cancel)
+
+        try {
+            if (options?.signal?.aborted) throw new KMAbortError()
+
+            let response: Response
+            let body: string
+            try {
+                response = await fetch(url, {
+                    ...init,
+                    signal: controller.signal,
+                    headers: {
+                        ...(config.apiKey != undefined ? { "aKey": config.apiKey } : {}),
+                        ...config.headers,
+                        ...init.headers
+                    }
+                })
+                body = await response.text()
+            } catch (e) {
+                if (timedOut) throw new KMTimeoutError(timeout)
+                if (options?.signal?.aborted) throw new KMAbortError()
+                throw new KMNetworkError()
+            }
+
+            if (!response.ok) throw errorForStatus(response.status, parseJson(body))
+            return { status: response.status, body: body }
+        } finally {
+            clearTimeout(timer)
+            options?.signal?.removeEventListener("abort", cancel)
+        }
+    }
+
+    /**
+     * Fetches the structure of a form.
+     *
+     * A form that no longer accepts responses is returned as usual, with `stillAccepting` set to `false`. The reply is
+     * checked with `parseForm`, so a malformed form fails here with `KMFormSchemaError` instead of breaking the view.
+     *
+     * @param formId Replaces `{formId}` in the endpoint. Can be left out if the endpoint is the full URL of one form.
+     * @param options
+     * @throws KMApiError
+     */
+    async function fetchForm(formId: string = "", options?: KMRequestOptions) {
+        const reply = await request(endpoint(config.endpoints?.form ?? "form/find?formId={formId}", formId), { method: "GET" }, options)
+        const data = parseJson(reply.body)
+        if (data === undefined) throw new KMApiError("The backend replied with a form that is not valid JSON", reply.status)
+        return parseForm(data)
+    }
+
+    /**
+     * Records a response to a form.
+     *
+     * Validation must be done on the user data before this function is called. Network errors, including timeouts,
+     * and `5xx` statuses are retried with exponential backoff. Any other failure means the backend rejected the
+     * response and sending it again would not help.
+     *
+     * Pass an `idempotencyKey` so that retries, and responses sent again by the user, are only recorded once.
+     *
+     * @param data `FormResponse`
+     * @param options
+     * @throws KMApiError The error of the last attempt
+     */
+    async function submitResponse(data: FormResponse, options?: KMSubmitOptions) {
+        const attempts = config.attempts ?? 3
+        let delay = config.retryDelay ?? 1000
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await request(endpoint(config.endpoints?.respond ?? "form/respond?formId={formId}", data.formId), {
+                    method: "PUT",
+                    body: JSON.stringify(data),
+                    headers: {
+                        "Content-Type": "application/json",
+                        ...(options?.idempotencyKey != undefined ? { "Idempotency-Key": options.idempotencyKey } : {})
+                    }
+                }, options)
+                return
+            } catch (e) {
+                const retryable = e instanceof KMNetworkError || e instanceof KMServerError
+                if (!retryable || attempt >= attempts) throw e
+            }
+
+            await wait(delay, options?.signal)
+            delay *= 2
+        }
+    }
+
+    return {
+        fetchForm,
+        submitResponse
+    }
+}
+
+/**
+ * Parses the body of a reply.
+ *
+ * @param body
+ * @returns `undefined` if `body` is not valid JSON.
+ * @private
+ */
+function parseJson(body: string): unknown {
+    try {
+        return JSON.parse(body)
+    } catch (e) {
+        return undefined
+    }
+}
+
+/**
+ * Waits before a retry.
+ *
+ * @param ms
+ * @param signal Ends the wait early when aborted
+ * @throws KMAbortError If `signal` is aborted before or during the wait
+ * @private
+ */
+function wait(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(new KMAbortError())
+        const abort = () => {
+            clearTimeout(timer)
+            reject(new KMAbortError())
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", abort)
+            resolve()
+        }, ms)
+        signal?.addEventListener("abort", abort, { once: true })
+    })
+}
@@ -0,0 +1,117 @@
+/**
+ * Base class of every error thrown by the KM API client.
+ *
+ * Catch this to handle any failed request. Catch one of the subclasses to handle a specific kind of failure.
+ *
+ * @param message Developer-facing description of the failure
+ * @param status HTTP status returned by the backend. `undefined` if the request never reached the backend.
+ * @see createKMClient
+ * @since 0.0.0
+ */
+export class KMApiError extends Error {
+    readonly status?: number
+
+    constructor(message: string, status?: number) {
+        super(message)
+        this.name = new.target.name
+        this.status = status
+    }
+}
+
+/**
+ * The backend could not be reached, e.g. because the user is offline.
+ */
+export class KMNetworkError extends KMApiError {
+    constructor(message: string = "The backend could not be reached") {
+        super(message)
+    }
+}
+
+/**
+ * The backend did not reply within the client's `timeout`.
+ */
+export class KMTimeoutError extends KMNetworkError {
+    constructor(timeout: number) {
+        super(`The backend did not reply within ${timeout} ms`)
+    }
+}
+
+/**
+ * The request was cancelled through the `AbortSignal` passed to the client.
+ */
+export class KMAbortError extends KMApiError {
+    constructor() {
+        super("The request was cancelled")
+    }
+}
+
+/**
+ * The backend rejected the API key (`401` or `403`).
+ */
+export class KMAuthError extends KMApiError {}
+
+/**
+ * The form no longer accepts responses (`410`).
+ */
+export class KMClosedFormError extends KMApiError {}
+
+/**
+ * The backend rejected the data that was sent (`400` or `422`).
+ *
+ * @param details Body of the reply, if it was JSON. Usually describes which answers were rejected, e.g.
+ * `{ "errors": { "<questionId>": "<message>" } }`.
+ */
+export class KMValidationError extends KMApiError {
+    readonly details?: unknown
+
+    constructor(message: string, status: number, details?: unknown) {
+        super(message, status)
+        this.details = details
+    }
+
+    /**
+     * Messages for the rejected answers, keyed by `questionId`, read from `details.errors`. Empty if the backend didn't
+     * say which answers it rejected.
+     */
+    get fieldErrors(): Record<string, string> {
+        const errors = (this.details as { errors?: unknown } | undefined)?.errors
+        if (typeof errors != "object" || errors == null || Array.isArray(errors)) return {}
+        return Object.fromEntries(Object.entries(errors).filter(([, message]) => typeof message == "string"))
+    }
+}
+
+/**
+ * The backend failed to handle the request (`5xx`). Trying again later may work.
+ */
+export class KMServerError extends KMApiError {}
+
+/**
+ * The backend replied with a form that doesn't match `TypeForm`.
+ *
+ * @param issues Every problem that was found, each prefixed with the path of the value, e.g.
+ * `questions[2].options: expected an array`.
+ * @see parseForm
+ */
+export class KMFormSchemaError extends KMApiError {
+    readonly issues: string[]
+
+    constructor(issues: string[]) {
+        super(`The backend replied with a form that is not valid:\n${issues.map((issue) => `- ${issue}`).join("\n")}`)
+        this.issues = issues
+    }
+}
+
+/**
+ * Returns the error matching an HTTP status that is not a success.
+ *
+ * @param status HTTP status returned by the backend
+ * @param details Body of the reply, if it was JSON
+ */
+export function errorForStatus(status: number, details?: unknown): KMApiError {
+    const message = `The backend replied with status ${status}`
+    if (status == 401 || status == 403) return new KMAuthError(message, status)
+    if (status == 410) return new KMClosedFormError(message, status)
+    if (status == 400 || status == 422) return new KMValidationError(message, status, details)
+    if (status >= 500) return new KMServerError(message, status)
+    return new KMApiError(message, status)
+}
@@ -0,0 +1,53 @@
+import {UploadedFile} from "../components/KMTypes";
+import {errorForStatus, KMAbortError, KMApiError, KMNetworkError} from "./errors";
+
+/**
+ * Uploads a single file to the backend, ahead of submitting the form.
+ *
+ * The file is sent as `multipart/form-data` in a field called `file`, with the `aKey` header. The backend must reply
+ * with a JSON body `{ "id": string }`. That `id` is what ends up in `QuestionResponse.value`.
+ *
+ * `XMLHttpRequest` is used instead of `fetch` because `fetch` cannot report upload progress.
+ *
+ * @param file The file picked by the user
+ * @param uploadUrl Full URL of the upload endpoint
+ * @param apiKey Sent to the backend as the `aKey` header
+ * @param onProgress Called with the fraction of the file that has been sent, from `0` to `1`
+ * @param signal Cancels the upload when aborted
+ * @returns A reference to the uploaded file
+ * @throws KMApiError If the upload fails or the backend replies with an error status
+ * @throws KMAbortError If `signal` is aborted before the upload finishes
+ * @since 0.0.0
+ */
+export default function uploadFile(file: File, uploadUrl: string, apiKey: string, onProgress?: (progress: number) => void, signal?: AbortSignal) {
+    return new Promise<UploadedFile>((resolve, reject) => {
+        if (signal?.aborted) return reject(new KMAbortError())
+        const request = new XMLHttpRequest()
+        request.open("POST", uploadUrl)
+        request.setRequestHeader("aKey", apiKey)
+        request.responseType = "json"
+
+        request.upload.onprogress = (e) => {
+            if (e.lengthComputable) onProgress?.(e.loaded / e.total)
+        }
+        request.onload = () => {
+            if (request.status < 200 || request.status >= 300) {
+                reject(errorForStatus(request.status, request.response ?? undefined))
+            } else if (typeof request.response?.id != "string") {
+                reject(new KMApiError("The backend did not reply with the ID of the uploaded file", request.status))
+            } else {
+                resolve({ id: request.response.id, name: file.name, size: file.size, type: file.type })
+            }
+        }
+        request.onerror = () => reject(new KMNetworkError())
+        request.onabort = () => reject(new KMAbortError())
+        request.onloadend = () => signal?.removeEventListener("abort", abort)
+
+        const abort = () => request.abort()
+        signal?.addEventListener("abort", abort, { once: true })
+
+        const body = new FormData()
+        body.append("file", file)
+        request.send(body)
+    })
+}
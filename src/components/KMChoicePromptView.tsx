@@ -1,8 +1,9 @@
-import { Accessor, createEffect, createSignal, For, Setter } from "solid-js";
+import { Accessor, createEffect, createSignal, For, on, Setter, Show } from "solid-js";
 import { twMerge } from "tailwind-merge";
-
-
-type _Option = { id: string, title: string, subtitle: string }
+import { LocalisedText, Option } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+import KMPromptHeader, { KMPromptError, promptIds } from "./KMPromptHeader";
+import { parseSelection, serializeSelection, toggleSelection } from "../lib/selection";
 
 
 /**
@@ -12,6 +13,9 @@ type _Option = { id: string, title: string, subtitle: string }
  * This `PromptView` is set to display in `single-choice` mode by default. To set it to `multi-choice` mode, set
  * the `multipleChoiceMode` parameters to `true`.
  *
+ * Set `withImages` to `true` to display each option as a card with the picture from `option.image`. Selection works
+ * the same way in both modes.
+ *
  * #### CSS Shenanigans
  *
  * This component, itself, already has a vertical padding `py-3`. The subcomponents each have `mx-2` horizontal margin.
@@ -38,10 +42,13 @@ type _Option = { id: string, title: string, subtitle: string }
  * @param props.prompt Pass the `question.prompt` here.
  * @param props.required Pass `question.required` here.
  * @param props.multipleChoiceMode Pass `true` if `question.type == QuestionType.multi`
+ * @param props.withImages Pass `true` if `question.type` is `QuestionType.singleWithImage` or `QuestionType.multiWithImage`
+ * @param props.value Pass the stored value of the question here, e.g. an answer restored from a draft.
+ * @param props.error Validation error to be displayed under the options. Nothing is displayed if `undefined`.
  * @author Praanto
  * @since 0.0.0
  */
-export default function KMChoicePromptView(props: { id: string, prompt: string, description?: string, required: boolean, options: _Option[], class?: string, multipleChoiceMode?: boolean, storeUpdater: Function }) {
+export default function KMChoicePromptView(props: { id: string, prompt: LocalisedText, description?: LocalisedText, required: boolean, options: Option[], class?: string, multipleChoiceMode?: boolean, withImages?: boolean, storeUpdater: Function, value?: string, error?: string }) {
     /**
      * Stores the options that the user has selected.
      *
@@ -52,19 +59,19 @@ export default function KMChoicePromptView(props: { id: string, prompt: string,
      * This object is passed to every `FButton` along with `setSelectedState`.
      *
      * #### How option storing works
-     * The options selected are stored as a string. Every `option` has a single digit `id` as a string (which means the
-     * options can have IDs from `'0'` to `'9'` but they are stored as strings). This means, if the value stored in here
-     * is `'1234'`, then options 1 to 4 have been selected by the user.
+     * The IDs of the selected options are stored as an array, in the order the user selected them. Option IDs can be
+     * any string and an option can't be selected twice.
      *
-     * The `FButton` only removes its own `id` from the value.
+     * The value sent to the parent view is the array serialised by `serializeSelection`, e.g. `'["2","12"]'`. Values
+     * received from the parent view are read with `parseSelection`, which also understands the older format where
+     * single-digit IDs were concatenated into one string (e.g. `'0123'`).
      *
-     * This also limits the number of options in a multi-choice question to 10 (but let's be real, will we ever need a
-     * question with more than 10 options?)
+     * The `FButton` only adds or removes its own `id`.
      *
      * @see setSelectedState
      * @see FButton
      */
-    let selectedState: Accessor<string>
+    let selectedState: Accessor<string[]>
 
     /**
      * Setter for `selectedState`.
@@ -74,47 +81,81 @@ export default function KMChoicePromptView(props: { id: string, prompt: string,
      *
      * @see selectedState
      */
-    let setSelectedState: Setter<string>
+    let setSelectedState: Setter<string[]>
 
-    [selectedState, setSelectedState] = createSignal("")
+    [selectedState, setSelectedState] = createSignal<string[]>([])
 
 
     const multiChoiceMode = props.multipleChoiceMode == undefined ? false : props.multipleChoiceMode
     /**
-     * Stores  previous states.
+     * Stores the previous state, serialised.
      *
      * This is necessary to prevent an infinite update cycle (where a `createEffect` kjl
      */
     let prevSelectState = ""
 
+    const i18n = useI18n()
+    const ids = promptIds(props.id)
+    let optionSetRef!: HTMLDivElement
+
+    /**
+     * Moves the focus between the options with the arrow keys, wrapping around at the ends.
+     *
+     * In single-choice mode the focused option is also selected, like in a native radio group. In multi-choice mode
+     * options are toggled with the space bar.
+     */
+    function onKeyDown(e: KeyboardEvent) {
+        const step = { ArrowDown: 1, ArrowRight: 1, ArrowUp: -1, ArrowLeft: -1 }[e.key]
+        const inputs = Array.from(optionSetRef.querySelectorAll("input"))
+        // The root node is a shadow root inside `<km-form>`, where `document.activeElement` is the custom element.
+        const current = inputs.indexOf((optionSetRef.getRootNode() as Document | ShadowRoot).activeElement as HTMLInputElement)
+        if (step == undefined || current < 0) return
+
+        e.preventDefault()
+        const next = inputs[(current + step + inputs.length) % inputs.length]
+        next.focus()
+        if (!multiChoiceMode && !next.checked) next.click()
+    }
+
+    // Picks up values that are set by the parent view, e.g. when a draft is restored.
+    // `prevSelectState` is updated first so that the value is not sent back to the parent.
+    createEffect(on(() => props.value, (value) => {
+        if (value == undefined) return
+        const selected = parseSelection(value)
+        if (serializeSelection(selected) != serializeSelection(selectedState())) {
+            prevSelectState = serializeSelection(selected)
+            setSelectedState(selected)
+        }
+    }))
+
     createEffect(() => {
-        if (selectedState() != prevSelectState) {
-            props.storeUpdater(props.id, selectedState())
-            prevSelectState = selectedState()
+        const value = serializeSelection(selectedState())
+        if (value != prevSelectState) {
+            props.storeUpdater(props.id, value)
+            prevSelectState = value
         }
     })
 
     return (
-        <div class={twMerge(props.class, "py-3")}>
-            {/* Question prompt/title. See wiki for details. */}
-            <label class="flex flex-row font-medium select-none pb-1">
-                {props.prompt}
-                <span class="text-red-700" classList={{ "hidden": !props.required }}>*</span>
-            </label>
-
-            {/* Question description. See wiki for details. */}
-            <div class={`pb-2 font-normal text-sm leading-tight select-none`} classList={{ "hidden": props.description == undefined }}>
-                {props.description}
-            </div>
+        <div class={twMerge(props.class, "py-km")}>
+            <KMPromptHeader id={props.id} prompt={props.prompt} description={props.description} required={props.required} />
 
             {/* OptionSet. */}
-            <div class={twMerge(props.class, `grid gap-x-2`)} classList={{ "grid-cols-1": props.options.length < 2, "grid-cols-2": props.options.length > 1 }}>
+            <div ref={optionSetRef} class={twMerge(props.class, `grid gap-x-2`)} classList={{ "grid-cols-1": props.options.length < 2, "grid-cols-2": props.options.length > 1 }}
+                 role={multiChoiceMode ? "group" : "radiogroup"} aria-labelledby={ids.label} aria-describedby={ids.describedBy}
+                 aria-required={multiChoiceMode ? undefined : props.required} aria-invalid={props.error != undefined} onkeydown={onKeyDown}>
                 <For each={props.options}>{(each, i) =>
                     <div class={` my-2`}>
-                        <FButton id={each.id} title={each.title} subtitle={each.subtitle} selectedState={selectedState} setSelectedState={setSelectedState} multipleChoiceMode={multiChoiceMode} />
+                        <Show when={props.withImages} fallback={
+                            <FButton id={each.id} name={props.id} inputId={`${props.id}-option-${each.id}`} title={i18n.text(each.title)} subtitle={i18n.text(each.subtitle)} selectedState={selectedState} setSelectedState={setSelectedState} multipleChoiceMode={multiChoiceMode} />
+                        }>
+                            <FImageButton id={each.id} name={props.id} inputId={`${props.id}-option-${each.id}`} title={i18n.text(each.title)} subtitle={i18n.text(each.subtitle)} image={each.image} imageAlt={i18n.text(each.imageAlt)} selectedState={selectedState} setSelectedState={setSelectedState} multipleChoiceMode={multiChoiceMode} />
+                        </Show>
                     </div>
                 }</For>
             </div>
+
+            <KMPromptError id={props.id} error={props.error} />
         </div>
     )
 }
@@ -132,18 +173,18 @@ export default function KMChoicePromptView(props: { id: string, prompt: string,
  * ## How option storing works
  * This component has a mandatory `id` property that must be provided. This `id` is essentially the `optionId`.
  *
- * `optionId` in the backend are single-digits stored as strings. This means options can have `id` from `'0'` to `'9'`,
- * all as strings.
- *
- * This means if `selectedState() = '0123'`, options with IDs `0` to `3` are selected.
+ * `selectedState()` is the array of option IDs that are currently selected, e.g. `['0', '12']`.
  *
- * When a user clicks on an option, the `id` of the button is added (or removed) from `selectedState`.
+ * When a user clicks on an option, the `id` of the button is added to (or removed from) `selectedState` by
+ * `toggleSelection`.
  *
  * `FChoicePromptView` then propagates this change to the parent view (i.e. `Form`).
  *
  * ## How the button works internally
- * This component declares a checkbox `input` view and a `label` for that component.
- * The `input` is hidden from view which means the `label` is used to communicate to the user if it is selected or not.
+ * This component declares an `input` view and a `label` for that component. The `input` is a checkbox in multi-choice
+ * mode and a radio button, grouped by `name`, in single-choice mode.
+ * The `input` is only visually hidden (`sr-only`), so it can still be focused with the keyboard and is announced by
+ * screen readers, while the `label` is used to communicate to the user if it is selected or not.
  * The `input` is marked with the `peer` utility class and the `label` is tied to this `input` component. Read more about
  * checkboxes and labels in HTML here: https://www.w3schools.com/tags/att_input_type_checkbox.asp
  *
@@ -159,6 +200,8 @@ export default function KMChoicePromptView(props: { id: string, prompt: string,
  *
  * @constructor
  * @param props.id ID of the button. ID provided by the backend.
+ * @param props.name Name shared by the inputs of all options of the question. Pass the `question.id` here.
+ * @param props.inputId HTML ID of the `input`. Must be unique on the page, so it should include the question ID.
  * @param props.title The title of the button
  * @param props.subtitle The subtitle of the button
  * @param props.selectedState `Accessor` object that stores the value of `FChoicePromptView`.
@@ -168,8 +211,8 @@ export default function KMChoicePromptView(props: { id: string, prompt: string,
  * @private
  * @since 0.0.0
  */
-function FButton(props: { id: string, title: string, subtitle?: string, selectedState: Accessor<string>, setSelectedState: Setter<string>, multipleChoiceMode: boolean }) {
-    let fClassName = "border h-full select-none hover:cursor-pointer peer-checked:bg-gray-100 peer-checked:border-black hover:peer-checked:border-black font-light border-gray-500 hover:border-black px-3 py-3 h-full transition-colours duration-200 outline-none rounded"
+function FButton(props: { id: string, name: string, inputId: string, title: string, subtitle?: string, selectedState: Accessor<string[]>, setSelectedState: Setter<string[]>, multipleChoiceMode: boolean }) {
+    let fClassName = "border h-full select-none hover:cursor-pointer peer-checked:bg-km-selected peer-checked:border-km-accent hover:peer-checked:border-km-accent font-light border-km-border hover:border-km-border-hover peer-focus-visible:ring-2 peer-focus-visible:ring-km-accent px-3 py-3 h-full transition-colours duration-200 outline-none rounded-km"
 
     /**
      * Listener function attached to the `input` component.
@@ -178,26 +221,76 @@ function FButton(props: { id: string, title: string, subtitle?: string, selected
      * from the value.
      */
     function onClickListener() {
-        if (props.multipleChoiceMode) {
-            if (props.selectedState().includes(props.id)) props.setSelectedState(props.selectedState().replace(props.id, ""))
-            else props.setSelectedState(props.selectedState() + props.id)
-
-        } else {
-            props.setSelectedState(props.selectedState() == props.id ? "" : props.id)
-        }
+        props.setSelectedState(toggleSelection(props.selectedState(), props.id, props.multipleChoiceMode))
     }
 
     return (
-        <div class={`grid h-full`}>
-            <input class="peer hidden" id={props.id} type="checkbox" name={props.id} onclick={onClickListener} checked={props.selectedState().includes(props.id)} />
-            <label class={fClassName} for={props.id}>
+        <div class={`relative grid h-full`}>
+            <input class="peer sr-only" id={props.inputId} type={props.multipleChoiceMode ? "checkbox" : "radio"} name={props.name} value={props.id} onclick={onClickListener} checked={props.selectedState().includes(props.id)} />
+            <label class={fClassName} for={props.inputId}>
                 <div class="text-lg/[1.3] font-normal">
                     {props.title}
                 </div>
-                <div class="text-xs text-gray-500">
+                <div class="text-xs text-km-muted">
                     {props.subtitle}
                 </div>
             </label>
         </div>
     )
 }
+
+
+/**
+ * Button view used in forms for multiple choice questions whose options have pictures.
+ *
+ * Works exactly like `FButton`, but displays `image` above the title. The image is lazy-loaded and kept in its
+ * original aspect ratio inside a `4:3` frame. If there is no image, or it fails to load, the alternative text is
+ * shown in the frame instead.
+ *
+ * @constructor
+ * @param props.image URL of the picture
+ * @param props.imageAlt Alternative text for the picture. Defaults to `title`.
+ * @see FButton
+ * @private
+ * @since 0.0.0
+ */
+function FImageButton(props: { id: string, name: string, inputId: string, title: string, subtitle?: string, image?: string, imageAlt?: string, selectedState: Accessor<string[]>, setSelectedState: Setter<string[]>, multipleChoiceMode: boolean }) {
+    let fClassName = "grid grid-rows-[auto_1fr] border h-full select-none hover:cursor-pointer peer-checked:bg-km-selected peer-checked:border-km-accent hover:peer-checked:border-km-accent font-light border-km-border hover:border-km-border-hover peer-focus-visible:ring-2 peer-focus-visible:ring-km-accent h-full transition-colours duration-200 outline-none rounded-km overflow-hidden"
+
+    /**
+     * Set to `true` if the browser could not load `image`.
+     */
+    const [failed, setFailed] = createSignal(false)
+
+    const alt = () => props.imageAlt ?? props.title
+
+    function onClickListener() {
+        props.setSelectedState(toggleSelection(props.selectedState(), props.id, props.multipleChoiceMode))
+    }
+
+    return (
+        <div class={`relative grid h-full`}>
+            <input class="peer sr-only" id={props.inputId} type={props.multipleChoiceMode ? "checkbox" : "radio"} name={props.name} value={props.id} onclick={onClickListener} checked={props.selectedState().includes(props.id)} />
+            <label class={fClassName} for={props.inputId}>
+                <div class="relative aspect-[4/3] w-full bg-km-selected">
+                    <Show when={props.image != undefined && !failed()} fallback={
+                        <div class="absolute inset-0 grid place-content-center text-center text-xs text-km-muted px-3">
+                            {alt()}
+                        </div>
+                    }>
+                        <img class="absolute inset-0 w-full h-full object-contain" src={props.image} alt={alt()}
+                             loading="lazy" decoding="async" onerror={() => setFailed(true)} />
+                    </Show>
+                </div>
+                <div class="px-3 py-3">
+                    <div class="text-lg/[1.3] font-normal">
+                        {props.title}
+                    </div>
+                    <div class="text-xs text-km-muted">
+                        {props.subtitle}
+                    </div>
+                </div>
+            </label>
+        </div>
+    )
+}
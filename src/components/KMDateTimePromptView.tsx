@@ -0,0 +1,38 @@
+import KMPromptHeader, { KMPromptError, promptIds } from "./KMPromptHeader";
+import { LocalisedText } from "./KMTypes";
+
+/**
+ * Form component for date and time questions.
+ *
+ * Uses the browser's own `date` or `time` picker. The picker doesn't let the user pick anything outside `min` and
+ * `max`, but the value is validated again on submit since some browsers allow typing it in.
+ *
+ * The stored value is `YYYY-MM-DD` for dates and `HH:MM` for times, which is what the browser's pickers produce.
+ *
+ * @param props.id Pass the `question.id` here.
+ * @param props.type `"date"` or `"time"`
+ * @param props.prompt Pass the `question.prompt` here.
+ * @param props.description Pass the `question.description` here.
+ * @param props.required Pass `question.required` here.
+ * @param props.min Pass `question.validation.earliest` here.
+ * @param props.max Pass `question.validation.latest` here.
+ * @param props.value Current value of the field.
+ * @param props.error Validation error to be displayed under the field.
+ * @param props.storeUpdater Function that updates the value in the parent view.
+ * @since 0.0.0
+ */
+export default function KMDateTimePromptView(props: { id: string, type: "date" | "time", prompt: LocalisedText, description?: LocalisedText, required: boolean, min?: string, max?: string, value?: string, error?: string, storeUpdater: Function }) {
+    return (
+        <div class="grid py-km">
+            <KMPromptHeader id={props.id} prompt={props.prompt} description={props.description} required={props.required} for={props.id} />
+
+            <input id={props.id} name={props.id} type={props.type} required={props.required}
+                   aria-required={props.required} aria-invalid={props.error != undefined} aria-describedby={promptIds(props.id).describedBy}
+                   min={props.min} max={props.max} value={props.value ?? ""}
+                   class={`border bg-km-input font-light border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent px-2 py-2 transition-colours duration-200 text-xl outline-none rounded-km`}
+                   onchange={(e) => props.storeUpdater(props.id, e.currentTarget.value)} />
+
+            <KMPromptError id={props.id} error={props.error} />
+        </div>
+    )
+}
@@ -0,0 +1,49 @@
+import { For } from "solid-js";
+import { LocalisedText, Option } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+import KMPromptHeader, { KMPromptError, promptIds } from "./KMPromptHeader";
+import { parseSelection, serializeSelection } from "../lib/selection";
+
+/**
+ * Form component for single-choice questions with too many options to show as buttons.
+ *
+ * The value is stored in the same format as `KMChoicePromptView`, i.e. a JSON array with the selected option ID.
+ *
+ * @param props.id Pass the `question.id` here.
+ * @param props.prompt Pass the `question.prompt` here.
+ * @param props.description Pass the `question.description` here.
+ * @param props.required Pass `question.required` here.
+ * @param props.options Pass `question.options` here.
+ * @param props.placeholder Text of the empty option shown before anything is selected.
+ * @param props.value Current value of the question.
+ * @param props.error Validation error to be displayed under the dropdown.
+ * @param props.storeUpdater Function that updates the value in the parent view.
+ * @see parseSelection
+ * @since 0.0.0
+ */
+export default function KMDropdownPromptView(props: { id: string, prompt: LocalisedText, description?: LocalisedText, required: boolean, options: Option[], placeholder?: LocalisedText, value?: string, error?: string, storeUpdater: Function }) {
+    const i18n = useI18n()
+    const selected = () => parseSelection(props.value ?? "")[0] ?? ""
+
+    function onValueChange(optionId: string) {
+        props.storeUpdater(props.id, serializeSelection(optionId == "" ? [] : [optionId]))
+    }
+
+    return (
+        <div class="grid py-km">
+            <KMPromptHeader id={props.id} prompt={props.prompt} description={props.description} required={props.required} for={props.id} />
+
+            <select id={props.id} name={props.id} required={props.required}
+                    aria-required={props.required} aria-invalid={props.error != undefined} aria-describedby={promptIds(props.id).describedBy}
+                    class={`border bg-km-input font-light border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent px-2 py-2 transition-colours duration-200 text-xl outline-none rounded-km`}
+                    onchange={(e) => onValueChange(e.currentTarget.value)}>
+                <option value="" selected={selected() == ""}>{i18n.text(props.placeholder) ?? ""}</option>
+                <For each={props.options}>{(each) =>
+                    <option value={each.id} selected={selected() == each.id}>{i18n.text(each.title)}</option>
+                }</For>
+            </select>
+
+            <KMPromptError id={props.id} error={props.error} />
+        </div>
+    )
+}
@@ -0,0 +1,201 @@
+import { createEffect, createSignal, For, onCleanup, Show } from "solid-js";
+import { FileUploadSettings, LocalisedText, UploadedFile } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+import KMPromptHeader, { KMPromptError, promptIds } from "./KMPromptHeader";
+import uploadFile from "../api/file-upload";
+import { KMAbortError } from "../api/errors";
+import { checkFile, formatFileSize, parseUploads, serializeUploads } from "../lib/uploads";
+
+/**
+ * A file that is being uploaded.
+ */
+type _PendingUpload = { key: number, name: string, preview?: string, progress: number }
+
+/**
+ * Form component for questions that are answered by uploading files.
+ *
+ * Files can be dropped onto the component or picked through the browser's file picker. Every file is checked against
+ * `settings` and uploaded to `uploadUrl` straight away, with a progress bar. Once uploaded, the reference returned by
+ * the backend is added to the value of the question, so the form itself only submits references.
+ *
+ * Images are previewed with a thumbnail, other files with their name and size.
+ *
+ * @param props.id Pass the `question.id` here.
+ * @param props.prompt Pass the `question.prompt` here.
+ * @param props.description Pass the `question.description` here.
+ * @param props.required Pass `question.required` here.
+ * @param props.settings Pass `question.files` here.
+ * @param props.uploadUrl Full URL of the upload endpoint
+ * @param props.apiKey Sent to the backend as the `aKey` header
+ * @param props.value Current value of the question.
+ * @param props.error Validation error to be displayed under the component.
+ * @param props.storeUpdater Function that updates the value in the parent view.
+ * @param props.uploadingUpdater Called with `props.id` and the number of uploads in progress whenever it changes, so
+ * that the form isn't submitted before the files are.
+ * @see uploadFile
+ * @since 0.0.0
+ */
+export default function KMFileUploadPromptView(props: { id: string, prompt: LocalisedText, description?: LocalisedText, required: boolean, settings?: FileUploadSettings, uploadUrl?: string, apiKey: string, value?: string, error?: string, storeUpdater: Function, uploadingUpdater?: (id: string, count: number) => void }) {
+    let inputRef!: HTMLInputElement
+    const i18n = useI18n()
+    const ids = promptIds(props.id)
+
+    const [pending, setPending] = createSignal<_PendingUpload[]>([])
+    const [dragging, setDragging] = createSignal(false)
+
+    /**
+     * Files that were rejected or failed to upload, with the reason.
+     */
+    const [rejected, setRejected] = createSignal<string[]>([])
+
+    /**
+     * Thumbnails of images uploaded during this visit, keyed by their `UploadedFile.id`.
+     */
+    const [previews, setPreviews] = createSignal<Record<string, string>>({})
+    let nextKey = 0
+
+    const uploaded = () => parseUploads(props.value ?? "")
+    const maxCount = () => props.settings?.maxCount ?? 1
+
+    onCleanup(() => Object.values(previews()).forEach((url) => URL.revokeObjectURL(url)))
+
+    /**
+     * Cancels the uploads that are still running when the question is unmounted, e.g. on another page or hidden.
+     */
+    const uploads = new AbortController()
+
+    createEffect(() => props.uploadingUpdater?.(props.id, pending().length))
+    onCleanup(() => {
+        uploads.abort()
+        props.uploadingUpdater?.(props.id, 0)
+    })
+
+    function addFiles(files: File[]) {
+        const reasons: string[] = []
+        let room = maxCount() - uploaded().length - pending().length
+
+        files.forEach((file) => {
+            const reason = props.uploadUrl == undefined ? i18n.messages().uploadNotConfigured(file.name)
+                : checkFile(file, props.settings, i18n.messages())
+                ?? (room <= 0 ? i18n.messages().tooManyFiles(file.name, maxCount()) : undefined)
+            if (reason != undefined) {
+                reasons.push(reason)
+            } else {
+                room--
+                upload(file, props.uploadUrl!)
+            }
+        })
+        setRejected(reasons)
+    }
+
+    async function upload(file: File, uploadUrl: string) {
+        const key = nextKey++
+        const preview = file.type.startsWith("image/") ? URL.createObjectURL(file) : undefined
+        setPending([...pending(), { key: key, name: file.name, preview: preview, progress: 0 }])
+
+        const setProgress = (progress: number) =>
+            setPending(pending().map((p) => p.key == key ? { ...p, progress: progress } : p))
+
+        try {
+            const reference = await uploadFile(file, uploadUrl, props.apiKey, setProgress, uploads.signal)
+            if (preview != undefined) setPreviews({ ...previews(), [reference.id]: preview })
+            props.storeUpdater(props.id, serializeUploads([...uploaded(), reference]))
+        } catch (e) {
+            if (preview != undefined) URL.revokeObjectURL(preview)
+            // The question is gone, so there is nothing left to update
+            if (e instanceof KMAbortError) return
+            // Reported to the user as a rejected file
+            setRejected([...rejected(), i18n.messages().uploadFailed(file.name)])
+        }
+        setPending(pending().filter((p) => p.key != key))
+    }
+
+    function remove(file: UploadedFile) {
+        props.storeUpdater(props.id, serializeUploads(uploaded().filter((f) => f.id != file.id)))
+    }
+
+    function onKeyDown(e: KeyboardEvent) {
+        if (e.key != "Enter" && e.key != " ") return
+        e.preventDefault()
+        inputRef.click()
+    }
+
+    function onDrop(e: DragEvent) {
+        e.preventDefault()
+        setDragging(false)
+        addFiles(Array.from(e.dataTransfer?.files ?? []))
+    }
+
+    return (
+        <div class="grid py-km">
+            <KMPromptHeader id={props.id} prompt={props.prompt} description={props.description} required={props.required} />
+
+            {/* Drop zone. Clicking it, or pressing enter or space while it is focused, opens the file picker. */}
+            <div class="border border-dashed border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent rounded-km px-3 py-6 text-center text-sm transition-colours duration-200 outline-none hover:cursor-pointer"
+                 classList={{ "bg-km-selected border-km-accent": dragging(), "hidden": uploaded().length + pending().length >= maxCount() }}
+                 role="button" tabIndex={0} aria-labelledby={ids.label} aria-describedby={ids.describedBy}
+                 onclick={() => inputRef.click()}
+                 onkeydown={onKeyDown}
+                 ondragover={(e) => { e.preventDefault(); setDragging(true) }}
+                 ondragleave={() => setDragging(false)}
+                 ondrop={onDrop}>
+                {i18n.messages().dropFiles} <span class="underline">{i18n.messages().browseFiles}</span>
+                <div class="text-xs text-km-muted pt-1" classList={{ "hidden": props.settings?.maxSize == undefined }}>
+                    {i18n.messages().maxFileSize(formatFileSize(props.settings?.maxSize ?? 0))}
+                </div>
+            </div>
+            <input ref={inputRef} id={`${props.id}-input`} class="hidden" type="file" tabIndex={-1} multiple={maxCount() > 1}
+                   accept={props.settings?.accept?.join(",")} aria-labelledby={ids.label} aria-describedby={ids.describedBy}
+                   aria-required={props.required} aria-invalid={props.error != undefined}
+                   onchange={(e) => { addFiles(Array.from(e.currentTarget.files ?? [])); e.currentTarget.value = "" }} />
+
+            {/* Uploaded files. */}
+            <For each={uploaded()}>{(file) =>
+                <div class="flex flex-row items-center gap-3 border border-km-border rounded-km px-3 py-2 mt-2">
+                    <FilePreview name={file.name} preview={previews()[file.id]} />
+                    <div class="grow text-sm truncate">
+                        {file.name}
+                        <div class="text-xs text-km-muted">{formatFileSize(file.size)}</div>
+                    </div>
+                    <button type="button" class="text-sm underline" onclick={() => remove(file)} aria-label={`${i18n.messages().removeFile} ${file.name}`}>{i18n.messages().removeFile}</button>
+                </div>
+            }</For>
+
+            {/* Files that are still being uploaded. */}
+            <For each={pending()}>{(file) =>
+                <div class="flex flex-row items-center gap-3 border border-km-track rounded-km px-3 py-2 mt-2">
+                    <FilePreview name={file.name} preview={file.preview} />
+                    <div class="grow text-sm truncate">
+                        {file.name}
+                        <div class="w-full h-1 mt-1 bg-km-track rounded-km overflow-hidden" role="progressbar" aria-label={file.name} aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(file.progress * 100)}>
+                            <div class="h-full bg-km-accent transition-all duration-200" style={{ width: `${file.progress * 100}%` }} />
+                        </div>
+                    </div>
+                </div>
+            }</For>
+
+            <div class="grid" role="status">
+                <For each={rejected()}>{(reason) =>
+                    <span class="text-sm text-km-error">{reason}</span>
+                }</For>
+            </div>
+
+            <KMPromptError id={props.id} error={props.error} />
+        </div>
+    )
+}
+
+/**
+ * Thumbnail of an image, or the file extension for other files.
+ *
+ * @private
+ */
+function FilePreview(props: { name: string, preview?: string }) {
+    return (
+        <div class="w-10 h-10 shrink-0 rounded-km overflow-hidden bg-km-selected grid place-content-center text-xs text-km-muted uppercase">
+            <Show when={props.preview != undefined} fallback={props.name.split(".").pop()}>
+                <img class="w-full h-full object-cover" src={props.preview} alt="" />
+            </Show>
+        </div>
+    )
+}
@@ -0,0 +1,312 @@
+import { createEffect, createMemo, createSignal, For, Index, Show } from "solid-js";
+import { createStore, reconcile, unwrap } from "solid-js/store";
+import { LocalisedText, Option, Question, QuestionType, TypeForm } from "./KMTypes";
+import KMFormView from "./KMFormView";
+import { KMClient } from "../api/client";
+import { KMFormSchemaError } from "../api/errors";
+import { detectLocale, I18nContext, localise, Messages, mergeCatalogues, useI18n } from "../lib/i18n";
+import { isChoiceQuestion } from "../lib/validation";
+import { changeType, emptyForm, exportForm, hasImages, importForm, moveItem, newOption, newQuestion, removeQuestion, renameForm, renameQuestion, setLocalised } from "../lib/builder";
+
+const inputClass = "border bg-km-input font-light border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent px-2 py-1 transition-colours duration-200 outline-none rounded-km"
+const buttonClass = "border border-km-border hover:bg-km-selected hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent px-3 py-1 text-sm transition-colours duration-200 outline-none rounded-km disabled:opacity-40"
+
+/**
+ * Editor for `TypeForm`s, with a live preview of the form rendered by `KMFormView`.
+ *
+ * Questions and options can be added, reordered, edited and deleted. The form is exported as, and imported from, the
+ * JSON served by `/form/find`. Problems that would make the backend's form invalid, such as duplicate IDs, are listed
+ * instead of the preview.
+ *
+ * Translated fields (`LocalisedText`) are edited in `locale`. Fields that are plain strings stay plain strings.
+ *
+ * The builder's own text is taken from the same catalogues as `KMFormView`'s, in the browser's language.
+ *
+ * @param props.form Form to start from. Defaults to an empty form.
+ * @param props.locale Locale whose translations are edited. Defaults to `en`.
+ * @param props.messages Replacement or additional message catalogues, keyed by locale. See `KMFormView`.
+ * @param props.onChange Called with the form after every change.
+ * @see exportForm
+ * @see importForm
+ * @since 0.0.0
+ */
+export default function KMFormBuilder(props: { form?: TypeForm, locale?: string, messages?: Record<string, Partial<Messages>>, onChange?: (form: TypeForm) => void }) {
+    const catalogues = mergeCatalogues(props.messages)
+    const uiLocale = detectLocale(Object.keys(catalogues))
+    const i18n = { locale: () => uiLocale, messages: () => catalogues[uiLocale] ?? catalogues["en"] }
+    const [form, setForm] = createStore<TypeForm>(props.form ?? emptyForm())
+    const [importError, setImportError] = createSignal<string>()
+    const [newType, setNewType] = createSignal<string>(QuestionType.short)
+    const locale = () => props.locale ?? "en"
+
+    /**
+     * The form as JSON. Reading it tracks every field of the form, so everything derived from it updates on any edit.
+     */
+    const json = createMemo(() => exportForm(form))
+
+    /**
+     * A plain copy of the form, passed to `onChange`.
+     */
+    const preview = createMemo(() => JSON.parse(json()) as TypeForm)
+
+    /**
+     * The parts of the form that `KMFormView` only reads when it is created: the questions and the answers they start
+     * with, the pages and the schedule. The preview is re-created when they change. Other edits, such as a prompt or a
+     * validation rule, show up in the preview as they are typed, keeping its answers, page and focus.
+     */
+    const structure = createMemo(() => JSON.stringify([
+        form.id, form.stillAccepting, form.opensAt, form.closesAt, form.sections,
+        form.questions.map((q) => [q.id, q.type, q.default, q.lockPrefilled])
+    ]))
+
+    createEffect(() => props.onChange?.(preview()))
+
+    /**
+     * Problems with the form, as reported by `parseForm`.
+     */
+    const issues = createMemo(() => {
+        try {
+            importForm(json())
+            return []
+        } catch (e) {
+            return e instanceof KMFormSchemaError ? e.issues : [String(e)]
+        }
+    })
+
+    /**
+     * Stands in for the backend in the preview. Responses are not sent anywhere.
+     */
+    const previewClient: KMClient = {
+        fetchForm: async () => preview(),
+        submitResponse: async () => {}
+    }
+
+    function updateQuestion(index: number, patch: Partial<Question>) {
+        setForm("questions", index, patch)
+    }
+
+    function addQuestion() {
+        setForm("questions", (questions) => [...questions, newQuestion(form, newType())])
+    }
+
+    function moveQuestion(index: number, to: number) {
+        setForm("questions", (questions) => moveItem(questions, index, to))
+    }
+
+    function deleteQuestion(index: number) {
+        setForm(reconcile(removeQuestion(unwrap(form), index)))
+    }
+
+    /**
+     * Changes the ID of the question at `index`, and the references to it if the IDs involved are unique. Otherwise
+     * only the question changes, since it isn't clear which question the references mean.
+     */
+    function renameQuestionAt(index: number, id: string) {
+        const oldId = form.questions[index].id
+        const shared = (questionId: string) => form.questions.some((q, i) => i != index && q.id == questionId)
+        if (shared(oldId) || shared(id)) updateQuestion(index, { id: id })
+        // Merged by position rather than by ID, so that the editor of the question, and the focus in it, stay in place.
+        else setForm(reconcile(renameQuestion(unwrap(form), oldId, id), { key: null, merge: true }))
+    }
+
+    function exportFile() {
+        const url = URL.createObjectURL(new Blob([json()], { type: "application/json" }))
+        const link = document.createElement("a")
+        link.href = url
+        link.download = `${form.id}.json`
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    async function importFile(file?: File) {
+        if (file == undefined) return
+        try {
+            setForm(reconcile(importForm(await file.text())))
+            setImportError(undefined)
+        } catch (e) {
+            setImportError(e instanceof Error ? e.message : String(e))
+        }
+    }
+
+    return (
+        <I18nContext.Provider value={i18n}>
+            <div class="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6 bg-km-background text-km-text font-km text-km-base">
+                {/* Editor. */}
+                <div class="grid gap-4 content-start">
+                    <div class="flex flex-row flex-wrap gap-2">
+                        <button type="button" class={buttonClass} onclick={exportFile}>{i18n.messages().builderExport}</button>
+                        <label class={`${buttonClass} hover:cursor-pointer`}>
+                            {i18n.messages().builderImport}
+                            <input class="sr-only" type="file" accept="application/json,.json"
+                                   onchange={(e) => { importFile(e.currentTarget.files?.[0]); e.currentTarget.value = "" }} />
+                        </label>
+                        <button type="button" class={buttonClass} onclick={() => setForm(reconcile(emptyForm()))}>{i18n.messages().builderNewForm}</button>
+                    </div>
+                    <Show when={importError() != undefined}>
+                        <pre class="whitespace-pre-wrap text-sm text-km-error" role="alert">{importError()}</pre>
+                    </Show>
+
+                    <fieldset class="grid gap-2 border border-km-border rounded-km p-3">
+                        <legend class="px-1 font-medium">{i18n.messages().builderForm}</legend>
+                        <TextField label={i18n.messages().builderId} value={form.id} onInput={(id) => setForm(reconcile(renameForm(unwrap(form), id)))} />
+                        <TextField label={i18n.messages().builderName} value={form.name} onInput={(name) => setForm("name", name)} />
+                        <Checkbox label={i18n.messages().builderAccepting} checked={form.stillAccepting} onChange={(checked) => setForm("stillAccepting", checked)} />
+                        <TextField label={i18n.messages().builderOpensAt} value={form.opensAt ?? ""} onInput={(date) => setForm("opensAt", date == "" ? undefined : date)} />
+                        <TextField label={i18n.messages().builderClosesAt} value={form.closesAt ?? ""} onInput={(date) => setForm("closesAt", date == "" ? undefined : date)} />
+                    </fieldset>
+
+                    <For each={form.questions}>{(question, i) =>
+                        <QuestionEditor question={question} index={i()} count={form.questions.length} locale={locale()}
+                                        onChange={(patch) => updateQuestion(i(), patch)}
+                                        onRename={(id) => renameQuestionAt(i(), id)}
+                                        onMove={(to) => moveQuestion(i(), to)}
+                                        onDelete={() => deleteQuestion(i())} />
+                    }</For>
+
+                    <div class="flex flex-row gap-2">
+                        <TypeSelect label={i18n.messages().builderNewQuestionType} value={newType()} onChange={setNewType} />
+                        <button type="button" class={buttonClass} onclick={addQuestion}>{i18n.messages().builderAddQuestion}</button>
+                    </div>
+                </div>
+
+                {/* Live preview. */}
+                <div class="border border-km-border rounded-km p-3 overflow-auto">
+                    <Show when={issues().length == 0} fallback={
+                        <ul class="grid gap-1 text-sm text-km-error list-disc pl-5">
+                            <For each={issues()}>{(issue) => <li>{issue}</li>}</For>
+                        </ul>
+                    }>
+                        <Show when={structure()} keyed>{(_structure) =>
+                            <KMFormView form={form} client={previewClient} drafts={false} locale={locale()} messages={props.messages}
+                                        layout="contained" showLanguageSwitcher={false} restFetchUrl="" restSubmitUrl="" apiKey="" />
+                        }</Show>
+                    </Show>
+                </div>
+            </div>
+        </I18nContext.Provider>
+    )
+}
+
+/**
+ * Editor for one question.
+ *
+ * @param props.question The question
+ * @param props.index Position of the question in the form
+ * @param props.count Number of questions in the form
+ * @param props.locale Locale whose translations are edited
+ * @param props.onChange Called with the fields that changed
+ * @param props.onRename Called with the new ID of the question
+ * @param props.onMove Called with the position the question should move to
+ * @param props.onDelete Called when the question should be deleted
+ * @private
+ */
+function QuestionEditor(props: { question: Question, index: number, count: number, locale: string, onChange: (patch: Partial<Question>) => void, onRename: (id: string) => void, onMove: (to: number) => void, onDelete: () => void }) {
+    const i18n = useI18n()
+    const text = (text: LocalisedText | undefined) => localise(text, props.locale) ?? ""
+
+    /**
+     * Returns the new value of an optional text field. Emptied plain strings are removed from the question.
+     */
+    const optional = (old: LocalisedText | undefined, value: string) =>
+        value == "" && typeof old != "object" ? undefined : setLocalised(old, props.locale, value)
+
+    function updateOption(index: number, patch: Partial<Option>) {
+        props.onChange({ options: props.question.options.map((o, i) => i == index ? { ...o, ...patch } : o) })
+    }
+
+    return (
+        <fieldset class="grid gap-2 border border-km-border rounded-km p-3">
+            <legend class="px-1 font-medium">{i18n.messages().builderQuestion(props.index + 1)}</legend>
+            <div class="flex flex-row flex-wrap gap-2">
+                <button type="button" class={buttonClass} disabled={props.index == 0} onclick={() => props.onMove(props.index - 1)}>{i18n.messages().builderMoveUp}</button>
+                <button type="button" class={buttonClass} disabled={props.index == props.count - 1} onclick={() => props.onMove(props.index + 1)}>{i18n.messages().builderMoveDown}</button>
+                <button type="button" class={`${buttonClass} text-km-error`} onclick={props.onDelete}>{i18n.messages().builderDelete}</button>
+            </div>
+
+            <TextField label={i18n.messages().builderId} value={props.question.id} onInput={props.onRename} />
+            <TypeSelect label={i18n.messages().builderType} value={props.question.type} onChange={(type) => props.onChange(changeType(props.question, type))} />
+            <TextField label={i18n.messages().builderPrompt} value={text(props.question.prompt)} onInput={(value) => props.onChange({ prompt: setLocalised(props.question.prompt, props.locale, value) })} />
+            <TextField label={i18n.messages().builderDescription} multiline value={text(props.question.description)} onInput={(value) => props.onChange({ description: optional(props.question.description, value) })} />
+            <TextField label={i18n.messages().builderPlaceholder} value={text(props.question.placeholder)} onInput={(value) => props.onChange({ placeholder: optional(props.question.placeholder, value) })} />
+            <TextField label={i18n.messages().builderDefault} value={props.question.default ?? ""} onInput={(value) => props.onChange({ default: value == "" ? undefined : value })} />
+            <Checkbox label={i18n.messages().builderRequired} checked={props.question.required} onChange={(checked) => props.onChange({ required: checked })} />
+            <Checkbox label={i18n.messages().builderLockPrefilled} checked={props.question.lockPrefilled == true} onChange={(checked) => props.onChange({ lockPrefilled: checked ? true : undefined })} />
+
+            <Show when={isChoiceQuestion(props.question)}>
+                <div class="grid gap-2 pt-2">
+                    <span class="font-medium">{i18n.messages().builderOptions}</span>
+                    {/* `Index` keeps the inputs of an option in place while its fields are replaced, so they don't lose focus. */}
+                    <Index each={props.question.options}>{(option, i) =>
+                        <div class="grid gap-2 border border-km-track rounded-km p-2">
+                            <TextField label={i18n.messages().builderId} value={option().id} onInput={(id) => updateOption(i, { id: id })} />
+                            <TextField label={i18n.messages().builderOptionTitle} value={text(option().title)} onInput={(value) => updateOption(i, { title: setLocalised(option().title, props.locale, value) })} />
+                            <TextField label={i18n.messages().builderOptionSubtitle} value={text(option().subtitle)} onInput={(value) => updateOption(i, { subtitle: setLocalised(option().subtitle, props.locale, value) })} />
+                            <Show when={hasImages(props.question)}>
+                                <TextField label={i18n.messages().builderImageUrl} value={option().image ?? ""} onInput={(value) => updateOption(i, { image: value == "" ? undefined : value })} />
+                                <TextField label={i18n.messages().builderImageAlt} value={text(option().imageAlt)} onInput={(value) => updateOption(i, { imageAlt: optional(option().imageAlt, value) })} />
+                            </Show>
+                            <div class="flex flex-row flex-wrap gap-2">
+                                <button type="button" class={buttonClass} disabled={i == 0} onclick={() => props.onChange({ options: moveItem(props.question.options, i, i - 1) })}>{i18n.messages().builderMoveUp}</button>
+                                <button type="button" class={buttonClass} disabled={i == props.question.options.length - 1} onclick={() => props.onChange({ options: moveItem(props.question.options, i, i + 1) })}>{i18n.messages().builderMoveDown}</button>
+                                <button type="button" class={`${buttonClass} text-km-error`} onclick={() => props.onChange({ options: props.question.options.filter((_, j) => j != i) })}>{i18n.messages().builderDeleteOption}</button>
+                            </div>
+                        </div>
+                    }</Index>
+                    <div>
+                        <button type="button" class={buttonClass} onclick={() => props.onChange({ options: [...props.question.options, newOption(props.question.options)] })}>{i18n.messages().builderAddOption}</button>
+                    </div>
+                </div>
+            </Show>
+        </fieldset>
+    )
+}
+
+/**
+ * @private
+ */
+function TextField(props: { label: string, value: string, multiline?: boolean, onInput: (value: string) => void }) {
+    return (
+        <label class="grid gap-1 text-sm">
+            {props.label}
+            <Show when={props.multiline} fallback={
+                <input class={inputClass} value={props.value} oninput={(e) => props.onInput(e.currentTarget.value)} />
+            }>
+                <textarea class={inputClass} rows={2} value={props.value} oninput={(e) => props.onInput(e.currentTarget.value)} />
+            </Show>
+        </label>
+    )
+}
+
+/**
+ * @private
+ */
+function Checkbox(props: { label: string, checked: boolean, onChange: (checked: boolean) => void }) {
+    return (
+        <label class="flex flex-row items-center gap-2 text-sm">
+            <input type="checkbox" checked={props.checked} onchange={(e) => props.onChange(e.currentTarget.checked)} />
+            {props.label}
+        </label>
+    )
+}
+
+/**
+ * Picks one of the built-in `QuestionType`s. A type that is not built in, e.g. from an imported form, is kept as an
+ * extra choice.
+ *
+ * @private
+ */
+function TypeSelect(props: { label: string, value: string, onChange: (type: string) => void }) {
+    const types = () => {
+        const builtIn = Object.values(QuestionType) as string[]
+        return builtIn.includes(props.value) ? builtIn : [...builtIn, props.value]
+    }
+
+    return (
+        <label class="grid gap-1 text-sm">
+            {props.label}
+            <select class={inputClass} onchange={(e) => props.onChange(e.currentTarget.value)}>
+                <For each={types()}>{(type) => <option value={type} selected={type == props.value}>{type}</option>}</For>
+            </select>
+        </label>
+    )
+}
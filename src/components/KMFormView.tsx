@@ -1,84 +1,287 @@
-import { For, Match, Setter, Show, Switch, createResource, createSignal, onMount } from "solid-js"
-import {FormResponse, Question, QuestionResponse, QuestionType, TypeForm} from "./KMTypes"
+import { Accessor, Component, For, Setter, Show, createEffect, createResource, createSignal, on, onCleanup, onMount } from "solid-js"
+import {FormResponse, Question, QuestionType, TypeForm} from "./KMTypes"
+import {Dynamic} from "solid-js/web";
 import spinner from "../assets/icons/spinner.svg"
 import ViewTransition from "kmanim/src/components/ViewTransition"
 import HoverReactiveText from "kmanim/src/components/HoverReactiveText"
-import KMChoicePromptView from "./KMChoicePromptView";
-import KMLongPromptView from "./KMLongPromptView";
-import {createStore} from "solid-js/store";
-import KMShortPromptView from "./KMShortPromptView";
 import KMSubmitButtonView from "./KMSubmitButton";
+import {createKMClient, KMClient} from "../api/client";
+import {KMAuthError, KMClosedFormError, KMNetworkError, KMTimeoutError, KMValidationError} from "../api/errors";
+import {createKMForm} from "../lib/form";
+import KMProgressView from "./KMProgressView";
+import KMReviewView from "./KMReviewView";
+import KMLanguageSwitcher from "./KMLanguageSwitcher";
+import {detectLocale, I18nContext, Messages, mergeCatalogues, useI18n} from "../lib/i18n";
+import {darkTheme, KMTheme, lightTheme, themeStyle} from "../lib/theme";
+import {getQuestionRenderer, QuestionRenderer} from "../lib/registry";
+import {builtinRenderers, unknownRenderer} from "./KMQuestionRenderers";
+import {
+    KMClosedScreenProps,
+    KMErrorScreenProps,
+    KMFormHeaderProps,
+    KMLayout,
+    KMLoadingScreenProps,
+    KMRespondedScreenProps,
+    KMSuccessScreenProps,
+    KMUpcomingScreenProps,
+    screenClass
+} from "../lib/screens";
+import {createNow, formatCountdown, formStatus, FormStatus, timeUntil} from "../lib/schedule";
+import {markResponded, respondedAt} from "../lib/responses";
+import {prefillFromQuery} from "../lib/prefill";
+import {createFormTracker, KMAnalyticsAdapter, KMAnalyticsEvent, KMFormTracker, toAnalyticsAdapter} from "../lib/analytics";
 
 /**
  * Displays a form through the provided `fetchUrl` and `submitUrl`.
  *
+ * Files for `fileUpload` questions are sent to `restUploadUrl` as soon as they are picked. Only the references
+ * returned by that endpoint are sent to `restSubmitUrl`.
+ *
+ * #### Languages
+ * Built-in text is available in English (`en`) and Swedish (`sv`). Pass `messages` to replace any of those messages
+ * or to add catalogues for more locales. The initial locale is `locale` if set, otherwise it is picked from the
+ * browser's languages. Users can switch language with the language switcher, which is shown if more than one
+ * catalogue is available unless `showLanguageSwitcher` is `false`.
+ *
+ * Questions and options pick the text for the current locale from their `LocalisedText` fields.
+ *
+ * #### Theming
+ * `theme` is either a `KMTheme` or one of `"light"`, `"dark"` and `"system"`. `"system"` follows the user's
+ * `prefers-color-scheme` setting and uses `darkTheme` as its dark variant, which can be replaced through the
+ * `darkTheme` prop. The theme is applied as CSS variables, so every component inside the form picks it up.
+ *
+ * #### Backend
+ * The form is fetched from `restFetchUrl` and responses are sent to `restSubmitUrl`, with `apiKey` as the `aKey`
+ * header. Relative URLs are resolved against the page. Pass a `client` made with `createKMClient` instead to configure
+ * timeouts, retries or other headers.
+ *
+ * #### Events
+ * `onLoaded` is called with the form once it has loaded. `onSubmit` is called with the `FormResponse` right before it
+ * is sent and can return `false` to cancel sending it. `onSubmitted` is called with the `FormResponse` once the
+ * backend has recorded it. `onError` is called with the error when the form fails to load (`"load"`) or a response
+ * fails to submit (`"submit"`).
+ *
+ * #### Prefilled answers
+ * Questions start with their `default` answer. `prefill` replaces those with answers keyed by question ID, e.g. from a
+ * personalised link. Set `prefillFromUrl` to also read answers from query parameters named after question IDs, e.g.
+ * `?name=Ada&team=blue`; `prefill` takes precedence over them. Questions with `lockPrefilled` keep their prefilled
+ * answer.
+ *
+ * #### Analytics
+ * `analytics` receives a `KMAnalyticsEvent` for every interaction with the form, from loading it to submitting or
+ * abandoning it. Pass a callback, or an adapter such as `createBeaconAnalytics` to post the events in batches. No
+ * events are collected if it is not set.
+ *
+ * #### Schedule
+ * Forms with `opensAt` show `upcomingScreen` with a countdown until they open, and then the questions. Forms with
+ * `closesAt` show a warning with the time left once less than `closingWarning` milliseconds (10 minutes by default)
+ * remain. Answers submitted after `closesAt` are not sent, and the user is told that the form has closed.
+ *
+ * #### Screens
+ * `loadingScreen`, `errorScreen`, `closedScreen`, `upcomingScreen` and `successScreen` replace the built-in screens and `formHeader`
+ * replaces the title above the questions. Each is a component that receives the props described by its type, e.g.
+ * `KMErrorScreenProps`.
+ *
+ * The built-in screens cover the viewport. Set `layout` to `"contained"` to make them fill the element the form is
+ * placed in instead.
+ *
+ * Set `review` to `true` to show a summary of the answers after the last page. The response is only submitted once
+ * the user confirms it there.
+ *
+ * Pass `form` to display a form that is already at hand, e.g. a preview in the form builder, instead of fetching it.
+ * Set `drafts` to `false` to turn off saving unfinished answers in `localStorage`.
+ *
+ * #### One response per device
+ * Set `oneResponsePerDevice` to remember in `localStorage` that the form was submitted and to show `respondedScreen`
+ * instead of the questions on later visits. Set `allowAnotherResponse` as well to offer a button that displays the
+ * form again. Every response is sent with an idempotency key, so a response that is sent twice, e.g. after a lost
+ * reply, is recorded once whether or not this is set.
+ *
+ * @see KMTheme
+ * @see createTheme
+ * @see createKMClient
+ * @see KMLayout
+ * @see KMAnalyticsEvent
+ * @see prefillValue
+ *
  * @param props
  * @constructor
  */
 export default function KMFormView(props: {
     restFetchUrl: string,
     restSubmitUrl: string,
-    successScreen?: any,
+    restUploadUrl?: string,
     apiKey: string,
-    formHeader?: any,
+    layout?: KMLayout,
+    loadingScreen?: Component<KMLoadingScreenProps>,
+    errorScreen?: Component<KMErrorScreenProps>,
+    closedScreen?: Component<KMClosedScreenProps>,
+    upcomingScreen?: Component<KMUpcomingScreenProps>,
+    closingWarning?: number,
+    respondedScreen?: Component<KMRespondedScreenProps>,
+    successScreen?: Component<KMSuccessScreenProps>,
+    formHeader?: Component<KMFormHeaderProps>,
+    locale?: string,
+    messages?: Record<string, Partial<Messages>>,
+    showLanguageSwitcher?: boolean,
+    contactEmail?: string,
+    theme?: KMTheme | "light" | "dark" | "system",
+    darkTheme?: KMTheme,
+    client?: KMClient,
+    form?: TypeForm,
+    drafts?: boolean,
+    review?: boolean,
+    prefill?: Record<string, string>,
+    prefillFromUrl?: boolean,
+    oneResponsePerDevice?: boolean,
+    allowAnotherResponse?: boolean,
+    analytics?: KMAnalyticsAdapter | ((event: KMAnalyticsEvent) => void),
+    onLoaded?: (form: TypeForm) => void,
+    onSubmit?: (response: FormResponse) => boolean | void,
+    onSubmitted?: (response: FormResponse) => void,
+    onError?: (error: unknown, during: "load" | "submit") => void,
 }) {
+    const catalogues = mergeCatalogues(props.messages)
+    const [locale, setLocale] = createSignal(props.locale ?? detectLocale(Object.keys(catalogues)))
+    const i18n = { locale: locale, messages: () => catalogues[locale()] ?? catalogues["en"] }
+
+    const colorScheme = window.matchMedia("(prefers-color-scheme: dark)")
+    const [prefersDark, setPrefersDark] = createSignal(colorScheme.matches)
+    const onColorSchemeChange = (e: MediaQueryListEvent) => setPrefersDark(e.matches)
+    colorScheme.addEventListener("change", onColorSchemeChange)
+    onCleanup(() => colorScheme.removeEventListener("change", onColorSchemeChange))
+
+    /**
+     * The theme that is currently applied.
+     */
+    const theme = () => {
+        const dark = props.darkTheme ?? darkTheme
+        if (props.theme == undefined || props.theme == "light") return lightTheme
+        if (props.theme == "dark") return dark
+        if (props.theme == "system") return prefersDark() ? dark : lightTheme
+        return props.theme
+    }
 
     const [loadingData, setLoadingData] = createSignal(true)
-    const [loadingError, setLoadError] = createSignal(false)
-    const [closedForm, setClosedForm] = createSignal(false)
+    /**
+     * The error that prevented the form from loading, if any.
+     */
+    const [loadingError, setLoadError] = createSignal<unknown>()
+    /**
+     * Whether the form accepts responses. Only updated until the form is displayed, so that the questions don't
+     * disappear while they are being answered when `closesAt` passes.
+     */
+    const [status, setStatus] = createSignal<FormStatus>("open")
+    const now = createNow()
 
-    const [beginEndScreenTransition, setBeginEndScreenTransition] = createSignal(false)
+    // Displays the form as soon as `opensAt` has passed.
+    createEffect(() => {
+        if (status() == "upcoming") setStatus(formStatus(result, now()))
+    })
 
-    let result: TypeForm
+    const [beginEndScreenTransition, setBeginEndScreenTransition] = createSignal(false)
+    /**
+     * The response recorded by the backend, passed to the success screen.
+     */
+    const [submittedResponse, setSubmittedResponse] = createSignal<FormResponse>()
+    const layout = () => props.layout ?? "fullscreen"
 
-    async function fetchFormStructure() {
-        let result = await fetch(props.restFetchUrl, {
-            method: "GET",
-            headers: {
-                "aKey": props.apiKey
-            }
-        })
+    /**
+     * When this device last responded to the form. Only set in the "one response per device" mode, and only read when
+     * the form loads so that the success screen is shown after submitting.
+     */
+    const [responded, setResponded] = createSignal<string>()
 
-        console.log(result.status)
-        console.log(result)
-        if (result.status == 200) return await result.json() as TypeForm
-        else throw "Error loading JSON"
+    function onSubmitted(response: FormResponse) {
+        if (props.oneResponsePerDevice) markResponded(response.formId)
+        setSubmittedResponse(response)
+        props.onSubmitted?.(response)
     }
 
+    /**
+     * Text of the live region, read out by screen readers whenever it changes.
+     */
+    const [announcement, setAnnouncement] = createSignal("")
+    let postFormRef: HTMLDivElement | undefined
+
+    // Moves the focus to the 'Thank you' screen once the form has been submitted, so that screen readers read it.
+    createEffect(on(beginEndScreenTransition, (done) => {
+        if (done) requestAnimationFrame(() => postFormRef?.focus())
+    }))
+
+    let result: TypeForm
+    let tracker: KMFormTracker
+
+    // Relative `restFetchUrl` and `restSubmitUrl` are resolved against the page, like any other URL on it.
+    const client = props.client ?? createKMClient({
+        baseUrl: location.href,
+        apiKey: props.apiKey,
+        endpoints: { form: props.restFetchUrl, respond: props.restSubmitUrl }
+    })
+
     // Upon view mount, KMForm will send request to provided restUrl to fetch form data.
+    // The request is cancelled if the view is removed before the form has loaded.
+    const loading = new AbortController()
+    onCleanup(() => loading.abort())
     onMount(async () => {
         try {
-            result = await fetchFormStructure()
-            setClosedForm(!result.stillAccepting)
+            result = props.form ?? await client.fetchForm(undefined, { signal: loading.signal })
+            // Created before the form is rendered, since `FormView` reports the questions it shows right away.
+            tracker = createFormTracker(result.id, toAnalyticsAdapter(props.analytics))
+            tracker.track({ type: "formLoaded", questionCount: result.questions.length })
+            setStatus(formStatus(result))
+            if (props.oneResponsePerDevice) setResponded(respondedAt(result.id))
             setLoadingData(false)
+            props.onLoaded?.(result)
         } catch (e) {
-            console.log("error" + e)
-            setLoadError(true)
+            if (loading.signal.aborted) return
+            setLoadError(() => e ?? new Error("The form could not be loaded"))
+            props.onError?.(loadingError(), "load")
         }
     })
 
     return (
-        <div>
-            <Show when={loadingData() && !loadingError()}>
-                <LoadingScreen />
-            </Show>
-            <Show when={loadingError()}>
-                <ErrorScreen />
-            </Show>
-            <Show when={!loadingData() && !loadingError() && closedForm()}>
-                <ClosedForm />
-            </Show>
+        <I18nContext.Provider value={i18n}>
+            <div lang={locale()} style={themeStyle(theme())} class="bg-km-background text-km-text font-km text-km-base" classList={{ "h-full": layout() == "contained" }}>
+                {/* Live region for the state of the form. */}
+                <div class="sr-only" role="status" aria-live="polite">{announcement()}</div>
 
-            <Show when={!loadingData() && !loadingError() && !closedForm()}>
-                <ViewTransition pre={
-                    <FormView data={result!} submitUrl={props.restSubmitUrl} beginViewTransition={setBeginEndScreenTransition}/>
-                } post={
-                    <PostFormSubmitView />
-                } beginTransition={
-                    beginEndScreenTransition
-                } />
-            </Show>
-        </div>
+                <Show when={props.showLanguageSwitcher != false && Object.keys(catalogues).length > 1}>
+                    <KMLanguageSwitcher catalogues={catalogues} locale={locale()} onChange={setLocale} />
+                </Show>
+                <Show when={loadingData() && loadingError() == undefined}>
+                    <Dynamic component={props.loadingScreen ?? LoadingScreen} layout={layout()} />
+                </Show>
+                <Show when={loadingError() != undefined}>
+                    <Dynamic component={props.errorScreen ?? ErrorScreen} error={loadingError()} layout={layout()} />
+                </Show>
+                <Show when={!loadingData() && loadingError() == undefined && status() == "closed"}>
+                    <Dynamic component={props.closedScreen ?? ClosedForm} form={result!} contactEmail={props.contactEmail} layout={layout()} />
+                </Show>
+                <Show when={!loadingData() && loadingError() == undefined && status() == "upcoming"}>
+                    <Dynamic component={props.upcomingScreen ?? UpcomingScreen} form={result!} remaining={timeUntil(result!.opensAt, now()) ?? 0} layout={layout()} />
+                </Show>
+
+                <Show when={!loadingData() && loadingError() == undefined && status() == "open" && responded() != undefined}>
+                    <Dynamic component={props.respondedScreen ?? RespondedScreen} form={result!} respondedAt={responded()!} layout={layout()}
+                             submitAnother={props.allowAnotherResponse ? () => setResponded(undefined) : undefined} />
+                </Show>
+                <Show when={!loadingData() && loadingError() == undefined && status() == "open" && responded() == undefined}>
+                    <ViewTransition pre={
+                        <FormView data={result!} client={client} drafts={props.drafts} review={props.review} header={props.formHeader} tracker={tracker!}
+                                  prefill={{ ...(props.prefillFromUrl ? prefillFromQuery(result!) : {}), ...props.prefill }} now={now} closingWarning={props.closingWarning ?? 10 * 60 * 1000} onSubmit={props.onSubmit} onSubmitted={onSubmitted} onError={props.onError} uploadUrl={props.restUploadUrl} apiKey={props.apiKey} beginViewTransition={setBeginEndScreenTransition} announce={setAnnouncement}/>
+                    } post={
+                        <div ref={postFormRef} tabIndex={-1} class="outline-none" classList={{ "h-full": layout() == "contained" }}>
+                            <Show when={submittedResponse()}>{(response) =>
+                                <Dynamic component={props.successScreen ?? PostFormSubmitView} form={result!} response={response()} layout={layout()} />
+                            }</Show>
+                        </div>
+                    } beginTransition={
+                        beginEndScreenTransition
+                    } />
+                </Show>
+            </div>
+        </I18nContext.Provider>
     )
 }
 
@@ -87,146 +290,485 @@ export default function KMFormView(props: {
  * @author Praanto Samadder
  * @constructor
  */
-function LoadingScreen() {
+function LoadingScreen(props: KMLoadingScreenProps) {
+    const i18n = useI18n()
+
     return (
-    <div id={`kmform-loading-screen`} class="w-screen h-screen grid place-content-center">
-        <img class="animate-spin" src={spinner} />
+    <div id={`kmform-loading-screen`} class={`${screenClass(props.layout)} grid place-content-center`} aria-busy="true">
+        <img class="animate-spin [filter:var(--km-spinner-filter)]" src={spinner} alt={i18n.messages().progressSpinner} />
     </div>)
 }
 
 /**
  * Displays a generic error screen if there occurred an error while loading form structure
+ *
+ * In development builds, the error itself is shown under the generic message, e.g. every problem found by
+ * `parseForm` in a malformed form.
+ *
+ * @param props.error The error that prevented the form from loading
  * @author Praanto Samadder
  * @constructor
  */
-function ErrorScreen() {
+function ErrorScreen(props: KMErrorScreenProps) {
+    const i18n = useI18n()
+
     return (
-        <div id={`kmform-error-screen`} class="w-screen h-screen grid place-content-center">
+        <div id={`kmform-error-screen`} class={`${screenClass(props.layout)} grid place-content-center`} role="alert">
             <div class="text-center">
-                Oops! We encountered an error. Might be on our side, might be on your side. Maybe try refreshing the screen!
+                {i18n.messages().errorScreen}
             </div>
+            <Show when={import.meta.env.DEV && props.error != undefined}>
+                <pre class="mt-6 max-w-3xl whitespace-pre-wrap border border-km-error rounded-km px-3 py-2 text-left text-sm text-km-error">
+                    {props.error instanceof Error ? `${props.error.name}: ${props.error.message}` : String(props.error)}
+                </pre>
+            </Show>
         </div>
     )
 }
 
 
+/**
+ * Displays a countdown until a form with `opensAt` opens.
+ *
+ * @constructor
+ */
+function UpcomingScreen(props: KMUpcomingScreenProps) {
+    const i18n = useI18n()
+    const opensAt = () => new Date(props.form.opensAt!).toLocaleString(i18n.locale(), { dateStyle: "long", timeStyle: "short" })
+
+    return (
+        <div id={`kmform-upcoming-screen`} class={`${screenClass(props.layout)} grid place-content-center text-center gap-3`}>
+            <div>
+                {i18n.messages().notOpenYet} {i18n.messages().opensAt(opensAt())}
+            </div>
+            <div role="timer" aria-label={i18n.messages().opensIn(formatCountdown(props.remaining))}
+                 class="text-5xl font-semibold tabular-nums text-km-title">
+                {formatCountdown(props.remaining)}
+            </div>
+        </div>
+    )
+}
+
+/**
+ * Displays a generic 'Already responded' page when this device has already responded to the form.
+ *
+ * @constructor
+ */
+function RespondedScreen(props: KMRespondedScreenProps) {
+    const i18n = useI18n()
+
+    return (
+        <div id={`kmform-responded-screen`} class={`${screenClass(props.layout)} grid place-content-center text-center`}>
+            <span>
+                {i18n.messages().alreadyResponded(new Date(props.respondedAt).toLocaleDateString(i18n.locale(), { dateStyle: "long" }))}
+            </span>
+            <Show when={props.submitAnother}>{(submitAnother) =>
+                <KMSubmitButtonView text={i18n.messages().submitAnother} whenLoading={() => false} onclick={submitAnother()} />
+            }</Show>
+        </div>
+    )
+}
+
 /**
  * Displays a generic 'Thank you' page after the user has submitted the form
+ *
  * @author Praanto Samadder
  * @constructor
  */
-function PostFormSubmitView() {
+function PostFormSubmitView(props: KMSuccessScreenProps) {
+    const i18n = useI18n()
+
     return (
-        <div id={`kmform-postform-view`} class={`w-screen h-screen grid place-content-center`}>
-            Thank you for filling out that form! We'll get back to you as soon as possible!
+        <div id={`kmform-postform-view`} class={`${screenClass(props.layout)} grid place-content-center`}>
+            {i18n.messages().thankYou}
         </div>
     )
 }
 
 /**
- * Takes in a list of `Question` and returns a list of `QuestionResponse`.
+ * Returns the renderer for a question.
  *
- * Used to initialise the `store` which is then passed down to every form component.
- * @param questions
- * @see `Question`
- * @see `QuestionResponse`
+ * Renderers added with `registerQuestionType` take precedence over the built-in ones. Questions of unknown types get
+ * a placeholder instead of disappearing. Built-in renderers are only looked up by their own keys, so types such as
+ * `"toString"` don't pick up members of `Object.prototype`.
+ *
+ * @param question
+ * @see registerQuestionType
  */
-const initialiseStore = (questions: Question[]) => {
-    return questions.map((q) => {
-        return {
-            questionId: q.id,
-            value: ""
-        }
-    }) as QuestionResponse[]
-}
+const rendererFor = (question: Question): QuestionRenderer =>
+    getQuestionRenderer(question.type) ??
+    (Object.hasOwn(builtinRenderers, question.type) ? builtinRenderers[question.type as QuestionType] : undefined) ??
+    unknownRenderer
 
+/**
+ * HTML ID of the element wrapping a question in `FormView`.
+ *
+ * Used to scroll to the first invalid question when the form fails validation.
+ * @param questionId
+ */
+const questionElementId = (questionId: string) => `kmform-question-${questionId}`
 
 function FormView( props: {
     data: TypeForm, beginViewTransition: Setter<boolean>,
-    customTitle?: any, submitUrl: string
+    header?: Component<KMFormHeaderProps>, client: KMClient, drafts?: boolean, uploadUrl?: string, apiKey: string,
+    review?: boolean,
+    prefill?: Record<string, string>,
+    tracker: KMFormTracker,
+    now: Accessor<number>,
+    closingWarning: number,
+    onSubmit?: (response: FormResponse) => boolean | void,
+    onSubmitted?: (response: FormResponse) => void,
+    onError?: (error: unknown, during: "submit") => void,
+    announce: (text: string) => void
 }) {
 
-    const [values, setValues] = createStore<QuestionResponse[]>(initialiseStore(props.data.questions))
-    
+    const i18n = useI18n()
+
     /**
-     * Loading state for `KMSubmitButton`
+     * State of the form. This view only renders it and handles the page navigation.
      */
-    const [whenLoading, setWhenLoading] = createSignal(false)
+    const form = createKMForm(props.data, {
+        client: props.client,
+        i18n: i18n,
+        drafts: props.drafts,
+        prefill: props.prefill,
+        serialize: (value, question) => rendererFor(question).serialize?.(value, question) ?? value
+    })
+    const { errors, value: valueOf, isVisible, visiblePages } = form
+
+    /**
+     * Index of the page in `visiblePages()` that is being displayed.
+     */
+    const [pageIndex, setPageIndex] = createSignal(0)
+    const currentIndex = () => Math.min(pageIndex(), visiblePages().length - 1)
+    const currentPage = () => visiblePages()[currentIndex()]
+    const isLastPage = () => currentIndex() == visiblePages().length - 1
+
+    /**
+     * `true` while the review screen is displayed instead of a page.
+     */
+    const [reviewing, setReviewing] = createSignal(false)
+
+    /**
+     * `true` once the user has seen the review screen. Every page then offers a way back to it.
+     */
+    const [reviewed, setReviewed] = createSignal(false)
+
+    /**
+     * Milliseconds left until `closesAt`, or `undefined` if the form doesn't close at a set time.
+     */
+    const closesIn = () => timeUntil(props.data.closesAt, props.now())
+    const closingSoon = () => closesIn() != undefined && closesIn()! <= props.closingWarning
+
+    // The warning is announced once rather than every time the countdown changes.
+    createEffect(on(closingSoon, (soon) => {
+        if (soon && closesIn()! > 0) props.announce(i18n.messages().closingSoon(formatCountdown(closesIn()!)))
+    }))
+
+    let formRef!: HTMLDivElement
 
     /**
-     * Pass this function to every component so each component can update their own data in the 
-     * 
-     * **CAUTION:** This is often regarded as unsafe programming as we are allowing edit access for data from different components.
-     * 
-     * @param id ID of the prompt
-     * @param value New value of the prompt
+     * Every page change is pushed onto the browser history so that the browser back button goes to the previous page.
+     * The review screen is pushed as well, with `kmformReview` set.
+     * @param event
      */
-    function updateStore(id: string, value: string) {
-        setValues(values.map((v) => (
-            v.questionId === id ? { ...v, value: value} : v
-        )))
+    function onPopState(event: PopStateEvent) {
+        setPageIndex(event.state?.kmformPage ?? 0)
+        setReviewing(event.state?.kmformReview == true)
+        focusPage()
+    }
+
+    /**
+     * Moves the focus to the top of the form after the page changes and announces the new page, so that keyboard and
+     * screen reader users start reading from the top of the new page.
+     */
+    function focusPage() {
+        formRef.focus({ preventScroll: true })
+        if (visiblePages().length > 1) props.announce(i18n.messages().pageOf(currentIndex() + 1, visiblePages().length))
+    }
+
+    onMount(() => {
+        history.replaceState({ ...history.state, kmformPage: 0 }, "")
+        window.addEventListener("popstate", onPopState)
+    })
+    onCleanup(() => window.removeEventListener("popstate", onPopState))
+
+    /**
+     * Reports that the form was left unfinished when the page is hidden or unloaded, and sends the queued analytics
+     * events since the page may not come back.
+     * @param event
+     */
+    function onPageLeave(event: Event) {
+        if (event.type == "visibilitychange" && document.visibilityState != "hidden") return
+        if (!form.submitted()) {
+            const answered = form.visibleQuestions().filter((q) => (valueOf(q.id) ?? "") != "").length
+            props.tracker.abandon(event.type == "pagehide" ? "pagehide" : "hidden", answered)
+        }
+        props.tracker.flush()
+    }
+
+    onMount(() => {
+        document.addEventListener("visibilitychange", onPageLeave)
+        window.addEventListener("pagehide", onPageLeave)
+    })
+    onCleanup(() => {
+        document.removeEventListener("visibilitychange", onPageLeave)
+        window.removeEventListener("pagehide", onPageLeave)
+    })
+
+    // Reports every question the first time it is displayed.
+    createEffect(() => {
+        if (!reviewing()) currentPage().questions.filter(isVisible).forEach((q) => props.tracker.shown(q.id))
+    })
+
+    /**
+     * Stores an answer given through a question's component and reports the change.
+     * @param questionId
+     * @param value
+     */
+    function updateAnswer(questionId: string, value: string) {
+        form.setValue(questionId, value)
+        props.tracker.change(questionId)
+    }
+
+    function nextPage() {
+        if (!validateQuestions(currentPage().questions.filter(isVisible))) return
+
+        const next = currentIndex() + 1
+        history.pushState({ ...history.state, kmformPage: next }, "")
+        setPageIndex(next)
+        formRef.scrollIntoView({ behavior: "smooth" })
+        focusPage()
+    }
+
+    function previousPage() {
+        history.back()
+    }
+
+    /**
+     * Validates the current page and shows the review screen.
+     */
+    function openReview() {
+        if (!validateQuestions(currentPage().questions.filter(isVisible))) return
+
+        history.pushState({ ...history.state, kmformPage: currentIndex(), kmformReview: true }, "")
+        setReviewing(true)
+        setReviewed(true)
+        formRef.scrollIntoView({ behavior: "smooth" })
+        focusPage()
+    }
+
+    /**
+     * Leaves the review screen for the page of a question and moves the focus to it.
+     * @param questionId
+     */
+    function editAnswer(questionId: string) {
+        const page = visiblePages().findIndex((p) => p.questions.some((q) => q.id == questionId))
+        history.pushState({ ...history.state, kmformPage: page, kmformReview: false }, "")
+        setReviewing(false)
+        setPageIndex(page)
+        focusQuestion(questionId)
+    }
+
+    /**
+     * Scrolls to a question on the current page and moves the focus to its input.
+     * @param questionId
+     */
+    function focusQuestion(questionId: string) {
+        // Looked up inside the form rather than the document, which doesn't reach into the shadow root of `<km-form>`.
+        const element = formRef.querySelector<HTMLElement>(`#${CSS.escape(questionElementId(questionId))}`)
+        element?.scrollIntoView({ behavior: "smooth", block: "center" })
+        element?.querySelector<HTMLElement>("input:not([type=file]), textarea, select, [tabindex='0']")?.focus({ preventScroll: true })
+    }
+
+    /**
+     * Validates the answers to `questions` and displays the errors under the questions that failed.
+     *
+     * Goes to the page of the first invalid question, if any, scrolls to it and moves the focus to its input.
+     *
+     * @param questions The questions to validate
+     * @returns `true` if every answer is valid.
+     */
+    function validateQuestions(questions: Question[]) {
+        const found = form.validate(questions)
+
+        const firstInvalid = questions.find((q) => found[q.id] != undefined)
+        if (firstInvalid == undefined) return true
+        props.tracker.track({ type: "validationFailed", questionIds: Object.keys(found) })
+        props.announce(i18n.messages().invalidAnswers(Object.keys(found).length))
+        showQuestion(firstInvalid)
+        return false
+    }
+
+    /**
+     * Goes to the page of a question, leaving the review screen if needed, scrolls to it and moves the focus to its input.
+     * @param question
+     */
+    function showQuestion(question: Question) {
+        const invalidPage = visiblePages().findIndex((p) => p.questions.includes(question))
+        if (invalidPage != currentIndex() || reviewing()) {
+            history.pushState({ ...history.state, kmformPage: invalidPage, kmformReview: false }, "")
+            setReviewing(false)
+            setPageIndex(invalidPage)
+        }
+
+        focusQuestion(question.id)
     }
 
     async function submitForm() {
-        setWhenLoading(true)
-        let responses: FormResponse = {
-            formId: props.data.id,
-            questionResponses: values
+        props.tracker.track({ type: "submitAttempted" })
+        if (!validateQuestions(form.visibleQuestions())) return
+        if (props.onSubmit?.(form.response()) == false) return
+
+        props.announce(i18n.messages().submitting)
+        if (await form.submit()) {
+            props.tracker.track({ type: "submitSucceeded", duration: props.tracker.duration() })
+            props.announce(i18n.messages().thankYou)
+            props.onSubmitted?.(form.response())
+            props.beginViewTransition(true)
         }
+        else if (form.submitError() != undefined) {
+            const error = form.submitError()
+            props.tracker.track({ type: "submitFailed", duration: props.tracker.duration(), error: error instanceof Error ? error.name : String(error) })
+            props.announce(submitErrorMessage())
+            props.onError?.(form.submitError(), "submit")
 
-        await fetch(props.submitUrl, {
-            headers: {
-                method: "PUT",
-                body: JSON.stringify(responses)
-            }
-        })
+            // Show the first answer the backend rejected
+            const rejected = form.visibleQuestions().find((q) => form.errors[q.id] != undefined)
+            if (error instanceof KMValidationError && rejected != undefined) showQuestion(rejected)
+        }
+    }
 
-        props.beginViewTransition(true)
+    /**
+     * Explains why the response could not be submitted.
+     */
+    const submitErrorMessage = () => {
+        const error = form.submitError()
+        if (error instanceof KMClosedFormError) return i18n.messages().closedBeforeSubmit
+        if (error instanceof KMNetworkError || error instanceof KMTimeoutError) return i18n.messages().submitOffline
+        if (error instanceof KMValidationError) return i18n.messages().submitRejected
+        if (error instanceof KMAuthError) return i18n.messages().submitUnauthorized
+        return i18n.messages().submitFailed
     }
 
     return (
-        <div>
-            <Show when={props.customTitle != undefined}>
-                { props.customTitle }
-            </Show>
-            <Show when={ props.customTitle == undefined}>
-                <HoverReactiveText class={`text-8xl font-semibold text-gray-700 hover:text-gray-400 dark:text-gray-700 dark:hover:text-gray-400`}>
+        <div ref={formRef} tabIndex={-1} class="outline-none">
+            <Show when={props.header != undefined} fallback={
+                <HoverReactiveText class={`text-8xl font-semibold text-km-title hover:text-km-title-hover`}>
                     {props.data.name}
                 </HoverReactiveText>
+            }>
+                <Dynamic component={props.header} form={props.data} />
+            </Show>
+
+            {/* Offers to restore answers from a previous visit. */}
+            <Show when={form.draftPending()}>
+                <div class="flex flex-row items-center gap-3 border border-km-border rounded-km px-3 py-3 my-3 text-sm">
+                    <span class="grow">
+                        {i18n.messages().draftFound(new Date(form.draft!.savedAt).toLocaleString(i18n.locale()))}
+                    </span>
+                    <button class="underline" onclick={form.restoreDraft}>{i18n.messages().restoreDraft}</button>
+                    <button class="underline text-km-muted" onclick={form.dismissDraft}>{i18n.messages().discardDraft}</button>
+                </div>
+            </Show>
+
+            {/* Warns that the form is about to close. */}
+            <Show when={closingSoon()}>
+                <div class="border border-km-error rounded-km px-3 py-3 my-3 text-sm text-km-error">
+                    {closesIn() == 0 ? i18n.messages().closedForm : i18n.messages().closingSoon(formatCountdown(closesIn()!))}
+                </div>
             </Show>
 
-            <For each={props.data.questions}>{(each, i) =>
-                <Switch>
-                    <Match when={each.type == QuestionType.single}>
-                        <KMChoicePromptView id={each.id} prompt={each.prompt} description={each.description} required={each.required} options={each.options} storeUpdater={updateStore}/>
-                    </Match>
-                    <Match when={each.type == QuestionType.multi}>
-                        <KMChoicePromptView id={each.id} prompt={each.prompt} description={each.description} required={each.required} options={each.options} multipleChoiceMode={true} storeUpdater={updateStore}/>
-                    </Match>
-                    <Match when={each.type == QuestionType.short}>
-                        <KMShortPromptView id={each.id} placeholder={each.placeholder} description={each.description} prompt={each.prompt} required={each.required} type={each.type} storeUpdater={updateStore}/>
-                    </Match>
-                    <Match when={each.type == QuestionType.long}>
-                        <KMLongPromptView storeUpdater={updateStore} id={each.id} cols={4} rows={4} prompt={each.prompt} description={each.description} required={each.required} placeholder={each.placeholder}/>
-                    </Match>
-                </Switch>
+            <Show when={!reviewing()} fallback={
+                <KMReviewView questions={form.visibleQuestions()} valueOf={valueOf} isLocked={form.isLocked} onEdit={editAnswer}/>
+            }>
+            <Show when={visiblePages().length > 1}>
+                <KMProgressView current={currentIndex()} total={visiblePages().length}/>
+            </Show>
+
+            {/* Title and description of the current page. */}
+            <Show when={currentPage().section != undefined}>
+                <div class="py-3">
+                    <div class="text-2xl font-semibold">{i18n.text(currentPage().section!.title)}</div>
+                    <div class="text-sm leading-tight pt-1" classList={{"hidden": currentPage().section!.description == undefined}}>
+                        {i18n.text(currentPage().section!.description)}
+                    </div>
+                </div>
+            </Show>
+
+            <For each={currentPage().questions}>{(each, i) =>
+                <Show when={isVisible(each)}>
+                    <div id={questionElementId(each.id)} onFocusIn={() => props.tracker.focus(each.id)}
+                         onFocusOut={(e) => {
+                             if (!e.currentTarget.contains(e.relatedTarget as Node | null)) props.tracker.blur(each.id, (valueOf(each.id) ?? "") != "")
+                         }}>
+                        {/* Disabling the fieldset disables every input of a locked question. */}
+                        <fieldset disabled={form.isLocked(each.id)} class="min-w-0">
+                            <Dynamic component={rendererFor(each).component} question={each} value={valueOf(each.id) ?? ""} error={errors[each.id]}
+                                     storeUpdater={updateAnswer} uploadingUpdater={form.setUploading} uploadUrl={props.uploadUrl} apiKey={props.apiKey} locked={form.isLocked(each.id)}/>
+                        </fieldset>
+                        <Show when={form.isLocked(each.id)}>
+                            <div class="text-sm text-km-muted">{i18n.messages().lockedAnswer}</div>
+                        </Show>
+                    </div>
+                </Show>
             }
             </For>
-            <KMSubmitButtonView whenLoading={whenLoading} onclick={submitForm}/>
+            </Show>
+
+            {/* Shown when the backend could not save the response. */}
+            <Show when={form.submitError() != undefined}>
+                <div class="text-sm text-km-error pt-3">
+                    {submitErrorMessage()}
+                </div>
+            </Show>
+            <div class="flex flex-row gap-3">
+                <Show when={currentIndex() > 0 || reviewing()}>
+                    <div class="py-3">
+                        <button onclick={previousPage}
+                                class={`border border-km-border font-normal hover:bg-km-selected px-6 py-2 hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent transition-colours duration-200 text-lg outline-none rounded-km`}>
+                            {i18n.messages().back}
+                        </button>
+                    </div>
+                </Show>
+                <Show when={reviewed() && !reviewing() && !isLastPage()}>
+                    <div class="grow">
+                        <KMSubmitButtonView text={i18n.messages().backToReview} whenLoading={() => false} onclick={openReview}/>
+                    </div>
+                </Show>
+                <div class="grow">
+                    <Show when={isLastPage()} fallback={
+                        <KMSubmitButtonView text={i18n.messages().next} whenLoading={() => false} onclick={nextPage}/>
+                    }>
+                        <Show when={props.review && !reviewing()} fallback={
+                            <KMSubmitButtonView whenLoading={form.submitting} onclick={submitForm}/>
+                        }>
+                            <KMSubmitButtonView text={i18n.messages().review} whenLoading={() => false} onclick={openReview}/>
+                        </Show>
+                    </Show>
+                </div>
+            </div>
         </div>
     )
 }
 
 /**
  * Displays generic 'Form is closed' text if `stillAccepting` flag is set to false in the fetch URL.
+ *
+ * @param props.contactEmail Address that users can write to if they think the form was closed by mistake. Not shown if `undefined`.
  * @author Praanto Samadder
  * @constructor
  */
-function ClosedForm() {
+function ClosedForm(props: KMClosedScreenProps) {
+    const i18n = useI18n()
+
     return (
-        <div class={`w-screen h-screen grid place-content-center text-center`}>
+        <div class={`${screenClass(props.layout)} grid place-content-center text-center`}>
             <span>
-                This form has been closed. Please send an email at <a class={`underline text-blue-400`} href="mailto:kam@insektionen.se">kam@insektionen.se</a> if you think this is an error.
+                {i18n.messages().closedForm}
+                <Show when={props.contactEmail != undefined}>
+                    {" "}{i18n.messages().closedFormContactBefore} <a class={`underline text-km-link`} href={`mailto:${props.contactEmail}`}>{props.contactEmail}</a> {i18n.messages().closedFormContactAfter}
+                </Show>
             </span>
         </div>
     )
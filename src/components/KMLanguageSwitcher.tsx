@@ -0,0 +1,27 @@
+import { For } from "solid-js";
+import { Messages } from "../lib/i18n";
+
+/**
+ * Row of buttons that lets the user switch between the languages a form is available in.
+ *
+ * Each language is displayed by its own name, i.e. `Messages.languageName` of its catalogue.
+ *
+ * @param props.catalogues Message catalogues keyed by locale. One button is shown per catalogue.
+ * @param props.locale The current locale
+ * @param props.onChange Called with the locale that the user picked
+ * @since 0.0.0
+ */
+export default function KMLanguageSwitcher(props: { catalogues: Record<string, Messages>, locale: string, onChange: (locale: string) => void }) {
+    return (
+        <nav class="flex flex-row justify-end gap-3 py-3 text-sm" aria-label={props.catalogues[props.locale]?.languageSwitcherLabel}>
+            <For each={Object.keys(props.catalogues)}>{(locale) =>
+                <button type="button" lang={locale} onclick={() => props.onChange(locale)}
+                        class="underline-offset-4 hover:underline"
+                        classList={{ "underline font-medium": locale == props.locale, "text-km-muted": locale != props.locale }}
+                        aria-pressed={locale == props.locale}>
+                    {props.catalogues[locale].languageName}
+                </button>
+            }</For>
+        </nav>
+    )
+}
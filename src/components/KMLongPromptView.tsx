@@ -1,5 +1,7 @@
 import { createSignal, Setter } from "solid-js";
-import { QuestionResponse } from "./KMTypes";
+import { LocalisedText, QuestionResponse } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+import { promptIds } from "./KMPromptHeader";
 
 /**
  * Form component for viewing a short-text-response question.
@@ -33,8 +35,10 @@ import { QuestionResponse } from "./KMTypes";
  * @param props.cols Number of columns the `textarea` should have
  * @param props.rows Number of rows the `textarea` should have
  * @param props.placeholder `textarea` tag placeholder text
+ * @param props.value Current value of the field, e.g. an answer restored from a draft
  * @param props.valueSetter `Setter<string>` type. Pass a solid-js `Setter` component to read values from the `input` tag
  * @param props.errorMessage Error message to be displayed in red when the field is submitted empty
+ * @param props.error Validation error from the parent view. Takes precedence over `errorMessage` when set
  *
  * @see `FShortPromptView`
  *
@@ -43,7 +47,7 @@ import { QuestionResponse } from "./KMTypes";
  * @constructor
  * @since 0.0.0
  */
-export default function KMLongPromptView(props: {id: string, cols: number, rows: number, prompt: string, description?: string, required: boolean, errorMessage?: string, storeUpdater: Function, placeholder?: string, valueSetter?: Setter<QuestionResponse>}) {
+export default function KMLongPromptView(props: {id: string, cols: number, rows: number, prompt: LocalisedText, description?: LocalisedText, required: boolean, errorMessage?: string, error?: string, storeUpdater: Function, placeholder?: LocalisedText, value?: string, valueSetter?: Setter<QuestionResponse>}) {
     /**
      * TSX reference to the `textarea`.
      *
@@ -52,18 +56,25 @@ export default function KMLongPromptView(props: {id: string, cols: number, rows:
      */
     let ref: HTMLTextAreaElement
     const [error, setError] = createSignal(false)
+    const i18n = useI18n()
     /**
      * The error message to be displayed in case of an...um...error.
      * @inner
-     * @default and here must exist a valid email address🫡
+     * @default `Messages.required` in the current locale
      */
-    const errorMessage = props.errorMessage == undefined ? "and here must exist a valid email address🫡" : props.errorMessage
+    const errorMessage = () => props.errorMessage ?? i18n.messages().required
+    const ids = promptIds(props.id)
+
+    /**
+     * `true` while an error message is displayed under the input.
+     */
+    const invalid = () => (error() && props.required) || props.error != undefined
 
 
     /**
      * Sets `error: Accessor<boolean>` to true if the `input` field is empty.
      *
-     * This should be passed through `onkeyup` to any `textarea` or `input` component that you'd like to observe.
+     * This should be passed through `oninput` to any `textarea` or `input` component that you'd like to observe.
      * @inner
      */
     function onValueChange() {
@@ -72,30 +83,31 @@ export default function KMLongPromptView(props: {id: string, cols: number, rows:
     }
 
     return (
-        <div class="grid py-3">
+        <div class="grid py-km">
             {/* The question title aka question prompt text */}
-            <span class={`font-medium select-none pb-1`}>
-                { props.prompt }
-                <span class="text-red-700" classList={{"hidden": !props.required}}>*</span>
-            </span>
+            <label id={ids.label} for={props.id} class={`font-medium select-none pb-1`}>
+                { i18n.text(props.prompt) }
+                <span class="text-km-error" classList={{"hidden": !props.required}} aria-hidden="true">*</span>
+            </label>
 
 
             {/* The question description text */}
-            <div class={`pb-2 font-normal text-sm leading-tight select-none`} classList={{"hidden": props.description == undefined}}>
-                {props.description}
+            <div id={ids.description} class={`pb-2 font-normal text-sm leading-tight select-none`} classList={{"hidden": props.description == undefined}}>
+                {i18n.text(props.description)}
             </div>
 
 
             {/* The input where the Setter<string> is attached. */}
-            <textarea rows={props.rows} cols={props.cols} ref={ref!} required={props.required}
-                   name={props.id} placeholder={ props.placeholder }
-                   class={`border font-light border-gray-500 hover:border-black px-2 py-2 transition-colours duration-200 text-md outline-none rounded`}
-                   onkeyup={onValueChange}/>
+            <textarea rows={props.rows} cols={props.cols} ref={ref!} id={props.id} required={props.required}
+                   name={props.id} placeholder={ i18n.text(props.placeholder) } value={ props.value ?? "" }
+                   aria-required={props.required} aria-invalid={invalid()} aria-describedby={ids.describedBy}
+                   class={`border bg-km-input font-light border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent px-2 py-2 transition-colours duration-200 text-md outline-none rounded-km`}
+                   oninput={onValueChange}/>
 
 
             {/* The error message to be displayed when the field is empty. */}
-            <span class="text-sm text-red-700" classList={{"hidden": (!error() || !props.required)}}>
-                { errorMessage }
+            <span id={ids.error} class="text-sm text-km-error" classList={{"hidden": !invalid()}}>
+                { props.error ?? errorMessage() }
             </span>
         </div>
     )
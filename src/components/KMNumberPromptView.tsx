@@ -0,0 +1,41 @@
+import KMPromptHeader, { KMPromptError, promptIds } from "./KMPromptHeader";
+import { LocalisedText } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+
+/**
+ * Form component for numeric questions.
+ *
+ * The stored value is the number as written by the browser's `number` input, i.e. with `.` as decimal separator.
+ * An empty or unparseable input is stored as an empty string.
+ *
+ * @param props.id Pass the `question.id` here.
+ * @param props.prompt Pass the `question.prompt` here.
+ * @param props.description Pass the `question.description` here.
+ * @param props.required Pass `question.required` here.
+ * @param props.min Pass `question.validation.min` here.
+ * @param props.max Pass `question.validation.max` here.
+ * @param props.step Pass `question.step` here. Any number is accepted if this is not set.
+ * @param props.placeholder `input` tag placeholder text
+ * @param props.value Current value of the field.
+ * @param props.error Validation error to be displayed under the field.
+ * @param props.storeUpdater Function that updates the value in the parent view.
+ * @since 0.0.0
+ */
+export default function KMNumberPromptView(props: { id: string, prompt: LocalisedText, description?: LocalisedText, required: boolean, min?: number, max?: number, step?: number, placeholder?: LocalisedText, value?: string, error?: string, storeUpdater: Function }) {
+    const i18n = useI18n()
+
+    return (
+        <div class="grid py-km">
+            <KMPromptHeader id={props.id} prompt={props.prompt} description={props.description} required={props.required} for={props.id} />
+
+            <input id={props.id} name={props.id} type="number" inputmode="decimal" required={props.required}
+                   aria-required={props.required} aria-invalid={props.error != undefined} aria-describedby={promptIds(props.id).describedBy}
+                   min={props.min} max={props.max} step={props.step ?? "any"}
+                   placeholder={i18n.text(props.placeholder)} value={props.value ?? ""}
+                   class={`border bg-km-input font-light border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent px-2 py-2 transition-colours duration-200 text-xl outline-none rounded-km`}
+                   oninput={(e) => props.storeUpdater(props.id, e.currentTarget.value)} />
+
+            <KMPromptError id={props.id} error={props.error} />
+        </div>
+    )
+}
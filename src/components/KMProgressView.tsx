@@ -0,0 +1,23 @@
+import { useI18n } from "../lib/i18n";
+
+/**
+ * Progress bar that shows which page of a multi-page form the user is on.
+ *
+ * @param props.current Index of the current page, starting from `0`
+ * @param props.total Total number of pages
+ * @since 0.0.0
+ */
+export default function KMProgressView(props: { current: number, total: number }) {
+    const i18n = useI18n()
+
+    return (
+        <div class="py-3">
+            <div class="text-sm text-km-muted pb-1 select-none">
+                {i18n.messages().pageOf(props.current + 1, props.total)}
+            </div>
+            <div class="w-full h-1 bg-km-track rounded-km overflow-hidden">
+                <div class="h-full bg-km-accent transition-all duration-300" style={{ width: `${((props.current + 1) / props.total) * 100}%` }} />
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,66 @@
+import { LocalisedText } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+
+/**
+ * Title and description of a question, shared by the prompt views.
+ *
+ * Displays a red asterisk after the prompt if the question is required. The description is hidden if it is `undefined`.
+ *
+ * @param props.prompt Pass the `question.prompt` here.
+ * @param props.description Pass the `question.description` here.
+ * @param props.required Pass `question.required` here.
+ * @param props.id Pass the `question.id` here. Used to give the prompt and description the IDs from `promptIds`.
+ * @param props.for HTML ID of the input that the prompt labels, if any.
+ * @since 0.0.0
+ */
+export default function KMPromptHeader(props: { id?: string, prompt: LocalisedText, description?: LocalisedText, required: boolean, for?: string }) {
+    const i18n = useI18n()
+    const ids = () => props.id == undefined ? undefined : promptIds(props.id)
+
+    return (
+        <>
+            {/* Question prompt/title. See wiki for details. */}
+            <label id={ids()?.label} class="flex flex-row font-medium select-none pb-1" for={props.for}>
+                {i18n.text(props.prompt)}
+                <span class="text-km-error" classList={{ "hidden": !props.required }} aria-hidden="true">*</span>
+            </label>
+
+            {/* Question description. See wiki for details. */}
+            <div id={ids()?.description} class={`pb-2 font-normal text-sm leading-tight select-none`} classList={{ "hidden": props.description == undefined }}>
+                {i18n.text(props.description)}
+            </div>
+        </>
+    )
+}
+
+/**
+ * Validation error displayed under a question. Nothing is displayed if `error` is `undefined`.
+ *
+ * @param props.id Pass the `question.id` here. Gives the error the ID from `promptIds`, so inputs can refer to it.
+ * @param props.error The error message
+ * @since 0.0.0
+ */
+export function KMPromptError(props: { id?: string, error?: string }) {
+    return (
+        <span id={props.id == undefined ? undefined : promptIds(props.id).error} class="text-sm text-km-error" classList={{ "hidden": props.error == undefined }}>
+            {props.error}
+        </span>
+    )
+}
+
+/**
+ * HTML IDs of the prompt, description and validation error of a question.
+ *
+ * Inputs use them for `aria-labelledby` and `aria-describedby`, so screen readers read the description and the
+ * error along with the input. `describedBy` is the value for `aria-describedby`.
+ *
+ * @param id `question.id`
+ */
+export function promptIds(id: string) {
+    return {
+        label: `${id}-label`,
+        description: `${id}-description`,
+        error: `${id}-error`,
+        describedBy: `${id}-description ${id}-error`
+    }
+}
@@ -0,0 +1,86 @@
+import { QuestionType } from "./KMTypes";
+import { QuestionRenderer, QuestionRendererProps } from "../lib/registry";
+import { useI18n } from "../lib/i18n";
+import KMChoicePromptView from "./KMChoicePromptView";
+import KMShortPromptView from "./KMShortPromptView";
+import KMLongPromptView from "./KMLongPromptView";
+import KMDateTimePromptView from "./KMDateTimePromptView";
+import KMNumberPromptView from "./KMNumberPromptView";
+import KMScalePromptView from "./KMScalePromptView";
+import KMDropdownPromptView from "./KMDropdownPromptView";
+import KMFileUploadPromptView from "./KMFileUploadPromptView";
+
+/**
+ * Renderers for every `QuestionType`, used by `KMFormView` unless a type has been replaced with
+ * `registerQuestionType`.
+ *
+ * Each renderer adapts `QuestionRendererProps` to the props of the matching prompt view. Answers to built-in types
+ * are validated by `validateResponse`, so these renderers have no `validate` of their own.
+ *
+ * @see registerQuestionType
+ */
+export const builtinRenderers: Record<QuestionType, QuestionRenderer> = {
+    [QuestionType.single]: { component: (props) => <ChoiceRenderer {...props} /> },
+    [QuestionType.multi]: { component: (props) => <ChoiceRenderer {...props} multipleChoiceMode={true} /> },
+    [QuestionType.singleWithImage]: { component: (props) => <ChoiceRenderer {...props} withImages={true} /> },
+    [QuestionType.multiWithImage]: { component: (props) => <ChoiceRenderer {...props} multipleChoiceMode={true} withImages={true} /> },
+    [QuestionType.short]: {
+        component: (props) =>
+            <KMShortPromptView id={props.question.id} type="text" prompt={props.question.prompt} description={props.question.description} required={props.question.required} placeholder={props.question.placeholder} value={props.value} error={props.error} storeUpdater={props.storeUpdater}/>
+    },
+    [QuestionType.long]: {
+        component: (props) =>
+            <KMLongPromptView id={props.question.id} cols={4} rows={4} prompt={props.question.prompt} description={props.question.description} required={props.question.required} placeholder={props.question.placeholder} value={props.value} error={props.error} storeUpdater={props.storeUpdater}/>
+    },
+    [QuestionType.date]: { component: (props) => <DateTimeRenderer {...props} type="date" /> },
+    [QuestionType.time]: { component: (props) => <DateTimeRenderer {...props} type="time" /> },
+    [QuestionType.number]: {
+        component: (props) =>
+            <KMNumberPromptView id={props.question.id} prompt={props.question.prompt} description={props.question.description} required={props.question.required} min={props.question.validation?.min} max={props.question.validation?.max} step={props.question.step} placeholder={props.question.placeholder} value={props.value} error={props.error} storeUpdater={props.storeUpdater}/>
+    },
+    [QuestionType.scale]: {
+        component: (props) =>
+            <KMScalePromptView id={props.question.id} prompt={props.question.prompt} description={props.question.description} required={props.question.required} points={props.question.scale?.points} minLabel={props.question.scale?.minLabel} maxLabel={props.question.scale?.maxLabel} value={props.value} error={props.error} storeUpdater={props.storeUpdater}/>
+    },
+    [QuestionType.dropdown]: {
+        component: (props) =>
+            <KMDropdownPromptView id={props.question.id} prompt={props.question.prompt} description={props.question.description} required={props.question.required} options={props.question.options} placeholder={props.question.placeholder} value={props.value} error={props.error} storeUpdater={props.storeUpdater}/>
+    },
+    [QuestionType.fileUpload]: {
+        component: (props) =>
+            <KMFileUploadPromptView id={props.question.id} prompt={props.question.prompt} description={props.question.description} required={props.question.required} settings={props.question.files} uploadUrl={props.uploadUrl} apiKey={props.apiKey} value={props.value} error={props.error} storeUpdater={props.storeUpdater} uploadingUpdater={props.uploadingUpdater}/>
+    },
+}
+
+/**
+ * Renderer used for questions whose type is neither built in nor registered.
+ */
+export const unknownRenderer: QuestionRenderer = { component: (props) => <KMUnknownQuestionView {...props} /> }
+
+function ChoiceRenderer(props: QuestionRendererProps & { multipleChoiceMode?: boolean, withImages?: boolean }) {
+    return <KMChoicePromptView id={props.question.id} prompt={props.question.prompt} description={props.question.description} required={props.question.required} options={props.question.options} multipleChoiceMode={props.multipleChoiceMode} withImages={props.withImages} value={props.value} error={props.error} storeUpdater={props.storeUpdater}/>
+}
+
+function DateTimeRenderer(props: QuestionRendererProps & { type: "date" | "time" }) {
+    return <KMDateTimePromptView id={props.question.id} type={props.type} prompt={props.question.prompt} description={props.question.description} required={props.question.required} min={props.question.validation?.earliest} max={props.question.validation?.latest} value={props.value} error={props.error} storeUpdater={props.storeUpdater}/>
+}
+
+/**
+ * Displayed in place of a question whose type `KMFormView` doesn't know, so that it doesn't silently disappear.
+ *
+ * Such questions can't be answered, so they are never validated.
+ *
+ * @since 0.0.0
+ */
+function KMUnknownQuestionView(props: QuestionRendererProps) {
+    const i18n = useI18n()
+
+    return (
+        <div class="py-km">
+            <div class="border border-dashed border-km-border rounded-km px-3 py-3 text-sm">
+                <div class="font-medium">{i18n.text(props.question.prompt)}</div>
+                <div class="text-km-muted">{i18n.messages().unknownQuestionType(props.question.type)}</div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,57 @@
+import { For, Show } from "solid-js";
+import { Question } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+import { formatAnswer } from "../lib/answers";
+
+/**
+ * Summary of the answers to a form, shown before they are submitted.
+ *
+ * Every question is listed with a readable version of its answer. Unanswered questions are marked, required ones in
+ * the error colour. Each answer has an edit button that should take the user back to the question.
+ *
+ * @param props.questions The questions to list. Pass the visible questions of the form here.
+ * @param props.valueOf Returns the stored value of a question.
+ * @param props.isLocked Returns `true` for questions whose answer can't be changed. These have no edit button.
+ * @param props.onEdit Called with the ID of the question whose answer the user wants to change.
+ * @see formatAnswer
+ * @since 0.0.0
+ */
+export default function KMReviewView(props: { questions: Question[], valueOf: (id: string) => string | undefined, isLocked?: (id: string) => boolean, onEdit: (questionId: string) => void }) {
+    const i18n = useI18n()
+
+    return (
+        <div class="py-3">
+            <h2 class="text-2xl font-semibold">{i18n.messages().reviewTitle}</h2>
+            <div class="text-sm leading-tight pt-1 pb-3">{i18n.messages().reviewDescription}</div>
+
+            <dl class="grid">
+                <For each={props.questions}>{(question) => {
+                    const answer = () => formatAnswer(question, props.valueOf(question.id) ?? "", i18n.locale())
+
+                    return (
+                        <div class="flex flex-row items-start gap-3 border-b border-km-track py-3">
+                            <div class="grow">
+                                <dt class="font-medium">{i18n.text(question.prompt)}</dt>
+                                <dd class="font-light whitespace-pre-wrap break-words">
+                                    <Show when={answer() != ""} fallback={
+                                        <span classList={{ "text-km-error": question.required, "text-km-muted": !question.required }}>
+                                            {question.required ? i18n.messages().requiredNotAnswered : i18n.messages().notAnswered}
+                                        </span>
+                                    }>
+                                        {answer()}
+                                    </Show>
+                                </dd>
+                            </div>
+                            <Show when={!props.isLocked?.(question.id)}>
+                                <button type="button" class="text-sm underline text-km-link" onclick={() => props.onEdit(question.id)}
+                                        aria-label={i18n.messages().editAnswer(i18n.text(question.prompt))}>
+                                    {i18n.messages().edit}
+                                </button>
+                            </Show>
+                        </div>
+                    )
+                }}</For>
+            </dl>
+        </div>
+    )
+}
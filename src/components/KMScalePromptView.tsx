@@ -0,0 +1,85 @@
+import { For } from "solid-js";
+import KMPromptHeader, { KMPromptError, promptIds } from "./KMPromptHeader";
+import { LocalisedText } from "./KMTypes";
+import { useI18n } from "../lib/i18n";
+
+/**
+ * Form component for rating and linear scale questions.
+ *
+ * Displays one button per point from `1` to `points`, with optional labels under the first and the last point.
+ * Clicking the selected point again clears the answer.
+ *
+ * The stored value is the selected point as a string, e.g. `'4'`.
+ *
+ * @param props.id Pass the `question.id` here.
+ * @param props.prompt Pass the `question.prompt` here.
+ * @param props.description Pass the `question.description` here.
+ * @param props.required Pass `question.required` here.
+ * @param props.points Pass `question.scale.points` here. Defaults to `5`.
+ * @param props.minLabel Pass `question.scale.minLabel` here.
+ * @param props.maxLabel Pass `question.scale.maxLabel` here.
+ * @param props.value Current value of the question.
+ * @param props.error Validation error to be displayed under the scale.
+ * @param props.storeUpdater Function that updates the value in the parent view.
+ * @since 0.0.0
+ */
+export default function KMScalePromptView(props: { id: string, prompt: LocalisedText, description?: LocalisedText, required: boolean, points?: number, minLabel?: LocalisedText, maxLabel?: LocalisedText, value?: string, error?: string, storeUpdater: Function }) {
+    const i18n = useI18n()
+    const points = () => Array.from({ length: props.points ?? 5 }, (_, i) => String(i + 1))
+
+    const ids = promptIds(props.id)
+    let scaleRef!: HTMLDivElement
+
+    function onClickListener(point: string) {
+        props.storeUpdater(props.id, props.value == point ? "" : point)
+    }
+
+    /**
+     * Moves the selection along the scale with the arrow keys, like in a native radio group.
+     */
+    function onKeyDown(e: KeyboardEvent) {
+        const step = { ArrowDown: 1, ArrowRight: 1, ArrowUp: -1, ArrowLeft: -1 }[e.key]
+        if (step == undefined) return
+
+        e.preventDefault()
+        const current = points().indexOf(props.value ?? "")
+        const next = current < 0 ? 0 : Math.min(Math.max(current + step, 0), points().length - 1)
+        props.storeUpdater(props.id, points()[next])
+        scaleRef.querySelectorAll("button")[next].focus()
+    }
+
+    /**
+     * Only the selected point, or the first one if nothing is selected, can be reached with the tab key.
+     */
+    function tabIndex(point: string) {
+        const selected = points().includes(props.value ?? "") ? props.value : points()[0]
+        return point == selected ? 0 : -1
+    }
+
+    return (
+        <div class="grid py-km">
+            <KMPromptHeader id={props.id} prompt={props.prompt} description={props.description} required={props.required} />
+
+            <div ref={scaleRef} class="flex flex-row gap-2" role="radiogroup" onkeydown={onKeyDown}
+                 aria-labelledby={ids.label} aria-describedby={ids.describedBy}
+                 aria-required={props.required} aria-invalid={props.error != undefined}>
+                <For each={points()}>{(point) =>
+                    <button type="button" role="radio" aria-checked={props.value == point} tabIndex={tabIndex(point)}
+                            onclick={() => onClickListener(point)}
+                            class="grow border border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent py-2 text-lg font-normal transition-colours duration-200 outline-none rounded-km"
+                            classList={{ "bg-km-selected border-km-accent": props.value == point }}>
+                        {point}
+                    </button>
+                }</For>
+            </div>
+
+            {/* End labels of the scale. */}
+            <div class="flex flex-row justify-between pt-1 text-xs text-km-muted select-none">
+                <span>{i18n.text(props.minLabel)}</span>
+                <span>{i18n.text(props.maxLabel)}</span>
+            </div>
+
+            <KMPromptError id={props.id} error={props.error} />
+        </div>
+    )
+}
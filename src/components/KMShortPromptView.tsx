@@ -1,4 +1,7 @@
 import {createSignal, Setter, Show} from "solid-js";
+import {LocalisedText} from "./KMTypes";
+import {useI18n} from "../lib/i18n";
+import {promptIds} from "./KMPromptHeader";
 
 /**
  * Form component for viewing a short-text-response question.
@@ -33,25 +36,32 @@ import {createSignal, Setter, Show} from "solid-js";
  * @param props.description The description of the question
  * @param props.required If this form is required for the form to be submitted. Displays a red asterisk if `required` is set to true.
  * @param props.placeholder `input` tag placeholder text
+ * @param props.value Current value of the field, e.g. an answer restored from a draft.
  * @param props.storeUpdater `Setter<string>` type. Pass a solid-js `Setter` component to read values from the `input` tag.
  * @param props.errorMessage Error message to be displayed in red when the field is submitted empty.
+ * @param props.error Validation error from the parent view. Takes precedence over `errorMessage` when set.
  *
  *
  * @constructor
  * @since 0.0.0
  */
-export default function KMShortPromptView(props: {id: string, type: string, prompt: string, description?: string, required: boolean, errorMessage?: string, placeholder?: string, storeUpdater: Function}) {
+export default function KMShortPromptView(props: {id: string, type: string, prompt: LocalisedText, description?: LocalisedText, required: boolean, errorMessage?: string, error?: string, placeholder?: LocalisedText, value?: string, storeUpdater: Function}) {
     let ref: HTMLInputElement
     const [error, setError] = createSignal(false)
+    const i18n = useI18n()
     /**
      * The error message to be displayed in case of an...um...error.
      *
-     * This message is not reactive meaning it can only be set during view initialisation.
-     *
      * @inner
-     * @default and here must exist a valid email address🫡
+     * @default `Messages.required` in the current locale
      */
-    const errorMessage = props.errorMessage == undefined ? "and here must exist a valid email address🫡" : props.errorMessage
+    const errorMessage = () => props.errorMessage ?? i18n.messages().required
+    const ids = promptIds(props.id)
+
+    /**
+     * `true` while an error message is displayed under the input.
+     */
+    const invalid = () => error() || props.error != undefined
 
 
     /**
@@ -61,6 +71,7 @@ export default function KMShortPromptView(props: {id: string, type: string, prom
      * sets `error: Accessor<boolean>` to true if the `input` component is empty.
      *
      * Error is not (and should not be) shown if the user hasn't input anything.
+     * Attached to `oninput`, so that pasted and autofilled text is stored too.
      * @inner
      */
     function onValueChange() {
@@ -69,34 +80,35 @@ export default function KMShortPromptView(props: {id: string, type: string, prom
     }
     
     return (
-        <div class="grid py-3">
+        <div class="grid py-km">
             {/* The question title aka question prompt text */}
             {/* Summary: The red asterisk is displayed when `props.required` is set to true. */}
             {/* Otherwise, it remains hidden. */}
-            <span class={`font-medium select-none pb-1`}>
-                { props.prompt }
-                <span class="text-red-700" classList={{"hidden": !props.required}}>*</span>
-            </span>
+            <label id={ids.label} for={props.id} class={`font-medium select-none pb-1`}>
+                { i18n.text(props.prompt) }
+                <span class="text-km-error" classList={{"hidden": !props.required}} aria-hidden="true">*</span>
+            </label>
 
 
             {/* The question description text */}
-            <div class={`pb-2 font-normal text-sm leading-tight select-none`} classList={{"hidden": props.description == undefined}}>
-                {props.description}
+            <div id={ids.description} class={`pb-2 font-normal text-sm leading-tight select-none`} classList={{"hidden": props.description == undefined}}>
+                {i18n.text(props.description)}
             </div>
 
 
             {/* THE input component */}
             {/* The input where the Setter<string> is attached. */}
-            <input ref={ref!} required={props.required}
-                   name={props.id} placeholder={ props.placeholder }
-                   class={`border font-light border-gray-500 hover:border-black px-2 py-2 transition-colours duration-200 text-xl outline-none rounded`}
-                   onkeyup={onValueChange}
+            <input ref={ref!} id={props.id} required={props.required}
+                   name={props.id} placeholder={ i18n.text(props.placeholder) } value={ props.value ?? "" }
+                   aria-required={props.required} aria-invalid={invalid()} aria-describedby={ids.describedBy}
+                   class={`border bg-km-input font-light border-km-border hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent px-2 py-2 transition-colours duration-200 text-xl outline-none rounded-km`}
+                   oninput={onValueChange}
                    type={props.type}/>
 
 
             {/* The error message to be displayed when the field is empty. */}
-            <span class="text-sm text-red-700" classList={{"hidden": (!error())}}>
-                { errorMessage }
+            <span id={ids.error} class="text-sm text-km-error" classList={{"hidden": !invalid()}}>
+                { props.error ?? errorMessage() }
             </span>
         </div>
     )
@@ -1,5 +1,6 @@
 import spinner from '../assets/icons/spinner.svg'
 import {Accessor} from "solid-js";
+import {useI18n} from "../lib/i18n";
 
 /**
  * Submit button used by `Form` component.
@@ -7,24 +8,30 @@ import {Accessor} from "solid-js";
  * This is different from the `FButton` which is used within `FChoicePromptView` (`FButton` is not even exported).
  *
  * @todo accept data for validation and submit request to the backend.
- * @param props.text Text to be shown in the center of the button
- * @param props.onclick Whatever is supposed to happen when the user clicks on the button
+ * @param props.text Text to be shown in the center of the button. Defaults to `Messages.submit` in the current locale.
+ * @param props.onclick Whatever is supposed to happen when the user clicks on the button. Not called while
+ * `whenLoading` is `true`, so that double clicks don't submit a form twice.
+ * @param props.whenLoading Shows a spinner and locks the button while `true`.
  */
 export default function KMSubmitButtonView(props: { text?: string, onclick: any, whenLoading: Accessor<boolean>}) {
-    const buttonText = props.text == undefined ? "Submit" : props.text
+    const i18n = useI18n()
+    const buttonText = () => props.text ?? i18n.messages().submit
 
     return (
         <div class={`py-3`}>
+            {/* Locked with aria-disabled rather than disabled, so that the button keeps the keyboard focus. */}
             <button
-                onclick={props.onclick}
-                class={`border relative border-gray-500 font-normal hover:bg-gray-100 py-2 hover:border-black transition-colours duration-200 text-lg outline-none rounded w-full`}>
-                { buttonText }
+                onclick={(e) => { if (!props.whenLoading()) props.onclick(e) }}
+                aria-busy={props.whenLoading()} aria-disabled={props.whenLoading()}
+                classList={{ "cursor-wait": props.whenLoading() }}
+                class={`border relative border-km-border font-normal hover:bg-km-selected py-2 hover:border-km-border-hover focus-visible:ring-2 focus-visible:ring-km-accent transition-colours duration-200 text-lg outline-none rounded-km w-full`}>
+                { buttonText() }
 
                 <div
                     classList={{"visible opacity-100": props.whenLoading(), "invisible opacity-0": !props.whenLoading()}}
-                    class={`absolute top-0 left-0 bg-white/90 w-full h-full grid place-content-center duration-500 transition-all`}>
+                    class={`absolute top-0 left-0 bg-km-overlay w-full h-full grid place-content-center duration-500 transition-all`}>
                     <img
-                        class={`animate-spin duration-300 transition-all`} src={spinner} alt={`Progress spinner indicating that the page is loading`}/>
+                        class={`animate-spin duration-300 transition-all [filter:var(--km-spinner-filter)]`} src={spinner} alt={i18n.messages().progressSpinner}/>
                 </div>
             </button>
         </div>
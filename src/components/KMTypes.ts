@@ -1,3 +1,12 @@
+/**
+ * Text that can be given in several languages.
+ *
+ * Either a plain string, used for every locale, or an object keyed by locale, e.g. `{ en: "Name", sv: "Namn" }`.
+ *
+ * @see localise
+ */
+export type LocalisedText = string | Record<string, string>
+
 /**
  * Every question in a form must conform to this type.
  */
@@ -11,17 +20,19 @@ export type Question = {
     /**
      * Title of the question.
      */
-    prompt: string,
+    prompt: LocalisedText,
     /**
      * Description text for the question
      */
-    description?: string,
+    description?: LocalisedText,
     /**
      * Classification of the question.
      *
+     * Either one of the built-in `QuestionType`s or a type that has been added with `registerQuestionType`.
+     *
      * @see `QuestionType`
      */
-    type: QuestionType,
+    type: QuestionType | string,
     /**
      * Options if the question is multiple-choice question.
      */
@@ -31,19 +42,191 @@ export type Question = {
      */
     required: boolean,
     /**
-     * Default value
+     * Additional rules that the answer must satisfy before the form can be submitted.
+     *
+     * Rules are only checked when the question has been answered, so an optional question can still be left empty.
+     *
+     * @see `ValidationRules`
+     */
+    validation?: ValidationRules,
+    /**
+     * Condition that must be met for this question to be shown. The question is always shown if this is not set.
+     *
+     * Hidden questions are neither validated nor submitted.
+     *
+     * @see `VisibilityRule`
+     */
+    visibleWhen?: VisibilityRule,
+    /**
+     * Answer the question starts with, in the format the question stores, e.g. `2024-05-01` for a date. Choice
+     * questions take option IDs, separated by commas for multiple-choice questions.
+     *
+     * Answers passed through the `prefill` of `KMFormView` take precedence over this.
+     *
+     * @see prefillValue
      */
     default?: string,
+    /**
+     * If `true`, a prefilled answer, whether it comes from `default` or from `prefill`, can't be changed by the user.
+     * Questions without a prefilled answer can be answered as usual.
+     */
+    lockPrefilled?: boolean,
     /**
      * Placeholder string
      */
-    placeholder?: string,
+    placeholder?: LocalisedText,
+    /**
+     * Increment between accepted numbers in `number` questions, counted from `validation.min` or `0`. Any number is
+     * accepted if this is not set.
+     */
+    step?: number,
+    /**
+     * Settings for `scale` questions.
+     *
+     * @see `ScaleSettings`
+     */
+    scale?: ScaleSettings,
+    /**
+     * Settings for `fileUpload` questions.
+     *
+     * @see `FileUploadSettings`
+     */
+    files?: FileUploadSettings,
+    /**
+     * Settings for question types added with `registerQuestionType`. Ignored by the built-in types.
+     */
+    settings?: Record<string, unknown>,
     /**
      * `ID` of the form that this question is a part of.
      */
     formId: string
 }
 
+/**
+ * Validation rules that can be attached to a `Question`.
+ *
+ * Text rules (`minLength`, `maxLength`, `pattern`) apply to short and long answers, the numeric range (`min`, `max`)
+ * applies to any answer that should be read as a number (including `number` questions), `earliest` and `latest` apply
+ * to `date` and `time` questions and the selection rules (`minSelections`, `maxSelections`) apply to multiple-choice
+ * questions.
+ *
+ * @see `validateResponse`
+ */
+export type ValidationRules = {
+    /**
+     * Minimum number of characters in the answer.
+     */
+    minLength?: number,
+    /**
+     * Maximum number of characters in the answer.
+     */
+    maxLength?: number,
+    /**
+     * Regular expression that the whole answer must match, e.g. `"[0-9]{6}"`.
+     */
+    pattern?: string,
+    /**
+     * Error message shown when the answer does not match `pattern`.
+     */
+    patternMessage?: LocalisedText,
+    /**
+     * Smallest accepted number.
+     */
+    min?: number,
+    /**
+     * Largest accepted number.
+     */
+    max?: number,
+    /**
+     * Earliest accepted answer for `date` (`YYYY-MM-DD`) and `time` (`HH:MM`) questions.
+     */
+    earliest?: string,
+    /**
+     * Latest accepted answer for `date` (`YYYY-MM-DD`) and `time` (`HH:MM`) questions.
+     */
+    latest?: string,
+    /**
+     * Minimum number of options that must be selected.
+     */
+    minSelections?: number,
+    /**
+     * Maximum number of options that can be selected.
+     */
+    maxSelections?: number
+}
+
+/**
+ * Condition on the answers to other questions in the same form.
+ *
+ * A rule is one of
+ * - `{ questionId, equals }` - the answer to `questionId` is exactly `equals`. For choice questions, `equals` is the
+ * ID of the only selected option.
+ * - `{ questionId, includes }` - for choice questions, the option with ID `includes` is selected. For text questions,
+ * the answer contains `includes`.
+ * - `{ questionId, notEmpty: true }` - `questionId` has been answered.
+ * - `{ all: [...] }` - every rule in the list is met (AND).
+ * - `{ any: [...] }` - at least one rule in the list is met (OR).
+ *
+ * A question that is hidden counts as unanswered, so rules can be chained across several questions.
+ *
+ * @example { any: [{ questionId: "q1", equals: "2" }, { questionId: "q3", notEmpty: true }] }
+ * @see `isQuestionVisible`
+ */
+export type VisibilityRule =
+    { questionId: string, equals: string } |
+    { questionId: string, includes: string } |
+    { questionId: string, notEmpty: true } |
+    { all: VisibilityRule[] } |
+    { any: VisibilityRule[] }
+
+/**
+ * Settings for a `scale` question, which lets the user pick a whole number from `1` to `points`.
+ */
+export type ScaleSettings = {
+    /**
+     * Number of points on the scale. Defaults to `5`.
+     */
+    points: number,
+    /**
+     * Label shown under `1`, e.g. "Not at all".
+     */
+    minLabel?: LocalisedText,
+    /**
+     * Label shown under the last point, e.g. "Very much".
+     */
+    maxLabel?: LocalisedText
+}
+
+/**
+ * Limits for the files accepted by a `fileUpload` question.
+ */
+export type FileUploadSettings = {
+    /**
+     * Accepted MIME types, e.g. `["application/pdf", "image/*"]`. Every type is accepted if this is not set.
+     */
+    accept?: string[],
+    /**
+     * Maximum size of each file in bytes.
+     */
+    maxSize?: number,
+    /**
+     * Maximum number of files. Defaults to `1`.
+     */
+    maxCount?: number
+}
+
+/**
+ * A file that has been uploaded for a `fileUpload` question.
+ *
+ * `id` is the reference returned by the upload endpoint. The other fields describe the file as it was picked by the user.
+ */
+export type UploadedFile = {
+    id: string,
+    name: string,
+    size: number,
+    type: string
+}
+
 /**
  * JSON body type that is received from `/form/find`
  *
@@ -52,7 +235,9 @@ export type Question = {
  * - `name` - name of the form. This can be ignored since most form names won't be shown to the user anyway.
  * - `createdAt` - time when the form was created.
  * - `stillAccepting` - if the form is still accepting responses
+ * - `opensAt` and `closesAt` - optional ISO 8601 times between which the form accepts responses.
  * - `questions` -  a list of `Question` objects.
+ * - `sections` - optional list of `FormSection` objects that split the form into pages.
  *
  * @see `Question`
  */
@@ -64,7 +249,42 @@ export type TypeForm = {
     name: string,
     createdAt: string,
     stillAccepting: boolean,
-    questions: Question[]
+    /**
+     * Responses are accepted from this time on, e.g. `2024-05-01T08:00:00Z`. Until then a countdown is shown instead
+     * of the questions.
+     */
+    opensAt?: string,
+    /**
+     * Responses are no longer accepted from this time on. Users are warned shortly before it.
+     */
+    closesAt?: string,
+    questions: Question[],
+    /**
+     * Splits the form into pages, one page per section, in the order they are listed.
+     *
+     * Questions that aren't part of any section are shown on the last page. If this is not set, every question is
+     * shown on a single page.
+     */
+    sections?: FormSection[]
+}
+
+/**
+ * A page in a multi-page form.
+ */
+export type FormSection = {
+    id: string,
+    /**
+     * Title shown at the top of the page.
+     */
+    title: LocalisedText,
+    /**
+     * Text shown under the title.
+     */
+    description?: LocalisedText,
+    /**
+     * IDs of the questions on this page. Questions are shown in the same order as in `TypeForm.questions`.
+     */
+    questionIds: string[]
 }
 
 /**
@@ -79,6 +299,23 @@ export type FormResponse = {
  * JSON type for a response to a particular question when sending data to `form/respond/`.
  *
  * Every response to a form must conform to this JSON type.
+ *
+ * #### Format of `value`
+ * - Short and long answers: the text as typed by the user.
+ * - Choice questions (`single`, `multi`, `singleWithImage`, `multiWithImage`): a JSON array of the selected option
+ * IDs in the order they were selected, e.g. `'["2","12"]'`. An empty string means nothing is selected. Values in the
+ * older format, where single-digit IDs were concatenated (e.g. `'0123'`), are still accepted.
+ * - Dropdowns: same format as choice questions, with at most one option ID, e.g. `'["4"]'`.
+ * - Dates: `YYYY-MM-DD`, e.g. `'2024-03-18'`.
+ * - Times: `HH:MM` in 24-hour format, e.g. `'14:30'`.
+ * - Numbers: a decimal number with `.` as separator, e.g. `'-2.5'`.
+ * - Scales: the selected point as a whole number, e.g. `'4'`.
+ * - File uploads: a JSON array of `UploadedFile` objects, e.g. `'[{"id":"f1","name":"cv.pdf","size":1024,"type":"application/pdf"}]'`.
+ * The files themselves are uploaded separately before the form is submitted.
+ *
+ * An unanswered question always has an empty string as its value.
+ *
+ * @see parseSelection
  */
 export type QuestionResponse = {
     id?: string,
@@ -91,9 +328,16 @@ export type QuestionResponse = {
  */
 export type Option = {
     id: string,
-    title: string,
-    subtitle: string,
-    image?: string
+    title: LocalisedText,
+    subtitle: LocalisedText,
+    /**
+     * URL of the picture shown for this option in `singleWithImage` and `multiWithImage` questions.
+     */
+    image?: string,
+    /**
+     * Alternative text for `image`. Defaults to `title`.
+     */
+    imageAlt?: LocalisedText
 }
 
 /**
@@ -125,5 +369,33 @@ export enum QuestionType {
      * Represents a multiple-choice question that accepts *multiple* answer select, but the options have pictures attached
      * to them.
      */
-    multiWithImage = "MultiChoiceWithImage"
+    multiWithImage = "MultiChoiceWithImage",
+    /**
+     * Represents a date picked from a calendar.
+     */
+    date = "Date",
+    /**
+     * Represents a time of day.
+     */
+    time = "Time",
+    /**
+     * Represents a numeric answer that is displayed using a `number` input.
+     */
+    number = "Number",
+    /**
+     * Represents a rating or linear scale from 1 to N.
+     *
+     * @see `ScaleSettings`
+     */
+    scale = "Scale",
+    /**
+     * Represents a single-choice question that is displayed as a dropdown. Useful for long option lists.
+     */
+    dropdown = "Dropdown",
+    /**
+     * Represents a question that is answered by uploading one or more files.
+     *
+     * @see `FileUploadSettings`
+     */
+    fileUpload = "FileUpload"
 }
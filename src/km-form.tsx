@@ -0,0 +1,112 @@
+import { render } from "solid-js/web";
+import { createSignal } from "solid-js";
+import styles from "./index.css?inline";
+import KMFormView from "./components/KMFormView";
+import { FormResponse } from "./components/KMTypes";
+import { createBeaconAnalytics } from "./lib/analytics";
+
+/**
+ * Attributes of `<km-form>` that are read when the form is rendered. Changing any of them renders the form again.
+ */
+const formAttributes = ["fetch-url", "submit-url", "upload-url", "api-key", "locale", "contact-email", "review", "layout", "one-response-per-device", "allow-another-response", "analytics-url", "prefill-from-url"]
+
+/**
+ * `KMFormView` as a custom element, for pages that don't use Solid.
+ *
+ * The form is rendered in a shadow root together with its own styles, so the styles of the page and the form don't
+ * affect each other.
+ *
+ * #### Attributes
+ * - `fetch-url`, `submit-url` and `upload-url` - same as `restFetchUrl`, `restSubmitUrl` and `restUploadUrl`.
+ * - `api-key` - sent to the backend as the `aKey` header.
+ * - `theme` - `light`, `dark` or `system`. Can be changed at any time without resetting the form.
+ * - `locale` - initial locale, e.g. `sv`.
+ * - `contact-email` - shown on the closed form screen.
+ * - `layout` - `fullscreen` (the default) or `contained`, see `KMLayout`.
+ * - `one-response-per-device` and `allow-another-response` - same as `oneResponsePerDevice` and
+ *   `allowAnotherResponse`, when present.
+ * - `analytics-url` - analytics events are posted there in batches, see `createBeaconAnalytics`.
+ * - `prefill-from-url` - when present, answers are prefilled from the query parameters of the page, see
+ *   `prefillFromUrl`.
+ * - `review` - when present, the answers are summarised for the user to confirm before they are submitted.
+ *
+ * #### Events
+ * Events bubble out of the shadow root.
+ * - `km-submitted` - the backend recorded the response. `detail.response` is the `FormResponse`.
+ * - `km-submit-error` - the response could not be submitted. `detail.error` is the error, usually a `KMApiError`.
+ * - `km-load-error` - the form could not be loaded. `detail.error` is the error.
+ *
+ * @example
+ * <script src="km-form.iife.js"></script>
+ * <km-form fetch-url="https://.../form/find?formId=demo" submit-url="https://.../form/respond?formId=demo"
+ *          api-key="..." theme="system"></km-form>
+ * <script>
+ *     document.querySelector("km-form").addEventListener("km-submitted", (e) => console.log(e.detail.response))
+ * </script>
+ *
+ * @see KMFormView
+ * @since 0.0.0
+ */
+export class KMFormElement extends HTMLElement {
+    static observedAttributes = [...formAttributes, "theme"]
+
+    private dispose?: () => void
+    private readonly theme = createSignal<"light" | "dark" | "system">("light")
+
+    connectedCallback() {
+        this.theme[1](this.themeAttribute())
+        this.renderForm()
+    }
+
+    disconnectedCallback() {
+        this.dispose?.()
+        this.dispose = undefined
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+        if (oldValue == newValue || !this.isConnected) return
+        if (name == "theme") this.theme[1](this.themeAttribute())
+        else this.renderForm()
+    }
+
+    private themeAttribute() {
+        const theme = this.getAttribute("theme")
+        return theme == "dark" || theme == "system" ? theme : "light"
+    }
+
+    private emit(type: string, detail: unknown) {
+        this.dispatchEvent(new CustomEvent(type, { detail: detail, bubbles: true, composed: true }))
+    }
+
+    private renderForm() {
+        this.dispose?.()
+
+        const root = this.shadowRoot ?? this.attachShadow({ mode: "open" })
+        root.replaceChildren()
+        const style = document.createElement("style")
+        style.textContent = styles
+        const container = document.createElement("div")
+        root.append(style, container)
+        const analyticsUrl = this.getAttribute("analytics-url")
+
+        this.dispose = render(() =>
+            <KMFormView restFetchUrl={this.getAttribute("fetch-url") ?? ""}
+                        restSubmitUrl={this.getAttribute("submit-url") ?? ""}
+                        restUploadUrl={this.getAttribute("upload-url") ?? undefined}
+                        apiKey={this.getAttribute("api-key") ?? ""}
+                        locale={this.getAttribute("locale") ?? undefined}
+                        contactEmail={this.getAttribute("contact-email") ?? undefined}
+                        review={this.hasAttribute("review")}
+                        prefillFromUrl={this.hasAttribute("prefill-from-url")}
+                        analytics={analyticsUrl != null ? createBeaconAnalytics({ endpoint: analyticsUrl }) : undefined}
+                        oneResponsePerDevice={this.hasAttribute("one-response-per-device")}
+                        allowAnotherResponse={this.hasAttribute("allow-another-response")}
+                        layout={this.getAttribute("layout") == "contained" ? "contained" : "fullscreen"}
+                        theme={this.theme[0]()}
+                        onSubmitted={(response: FormResponse) => this.emit("km-submitted", { response: response })}
+                        onError={(error, during) => this.emit(during == "load" ? "km-load-error" : "km-submit-error", { error: error })} />,
+            container)
+    }
+}
+
+if (customElements.get("km-form") == undefined) customElements.define("km-form", KMFormElement)
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createBeaconAnalytics, createFormTracker, KMAnalyticsEvent } from "./analytics"
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.parse("2024-05-01T12:00:00Z"))
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+})
+
+/**
+ * Creates a tracker whose events are collected in `events`.
+ */
+function setup() {
+    const events: KMAnalyticsEvent[] = []
+    return { tracker: createFormTracker("f", { track: (event) => events.push(event) }), events }
+}
+
+describe("createFormTracker", () => {
+    it("adds the form, session and time to every event", () => {
+        const { tracker, events } = setup()
+        tracker.track({ type: "submitAttempted" })
+        tracker.track({ type: "submitAttempted" })
+
+        expect(events[0]).toEqual({ type: "submitAttempted", formId: "f", session: expect.any(String), at: Date.now() })
+        expect(events[1].session).toBe(events[0].session)
+
+        createFormTracker("f", { track: (event) => events.push(event) }).track({ type: "submitAttempted" })
+        expect(events[2].session).not.toBe(events[0].session)
+    })
+
+    it("sends questionShown and questionChanged once", () => {
+        const { tracker, events } = setup()
+        tracker.shown("a")
+        tracker.shown("a")
+        tracker.focus("a")
+        tracker.change("a")
+        tracker.change("a")
+
+        expect(events.map((e) => e.type)).toEqual(["questionShown", "questionFocused", "questionChanged"])
+    })
+
+    it("adds up the time spent in a question and only completes answered ones", () => {
+        const { tracker, events } = setup()
+        tracker.focus("a")
+        vi.advanceTimersByTime(1000)
+        tracker.blur("a", false)
+        tracker.focus("a")
+        vi.advanceTimersByTime(500)
+        tracker.blur("a", true)
+
+        expect(events.filter((e) => e.type == "questionCompleted")).toEqual([
+            expect.objectContaining({ questionId: "a", timeSpent: 1500 })
+        ])
+    })
+
+    it("ignores a blur of a question that doesn't have the focus", () => {
+        const { tracker, events } = setup()
+        tracker.focus("a")
+        tracker.focus("b")
+        tracker.blur("a", true)
+        expect(events.map((e) => e.type)).toEqual(["questionFocused", "questionFocused"])
+    })
+
+    it("reports the last focused question when the form is abandoned", () => {
+        const { tracker, events } = setup()
+        tracker.focus("a")
+        tracker.blur("a", true)
+        vi.advanceTimersByTime(2000)
+        tracker.abandon("hidden", 1)
+
+        expect(events.at(-1)).toMatchObject({ type: "formAbandoned", reason: "hidden", lastQuestionId: "a", answered: 1, duration: 2000 })
+    })
+
+    it("keeps working when the adapter throws", () => {
+        const tracker = createFormTracker("f", {
+            track: () => { throw new Error("broken") },
+            flush: () => { throw new Error("broken") }
+        })
+        expect(() => tracker.focus("a")).not.toThrow()
+        expect(() => tracker.flush()).not.toThrow()
+    })
+})
+
+describe("createBeaconAnalytics", () => {
+    const event = (questionId: string): KMAnalyticsEvent =>
+        ({ type: "questionShown", questionId: questionId, formId: "f", session: "s", at: 0 })
+
+    /**
+     * Stubs `navigator.sendBeacon` and returns the bodies it was given.
+     */
+    function stubBeacon(queued = true) {
+        const bodies: Blob[] = []
+        vi.stubGlobal("navigator", {
+            sendBeacon: (_url: string, body: Blob) => {
+                bodies.push(body)
+                return queued
+            }
+        })
+        return bodies
+    }
+
+    /**
+     * Reads the events in a beacon body. jsdom's `Blob` has no `text()`, and its `FileReader` needs the real timers.
+     */
+    function read(body: Blob) {
+        vi.useRealTimers()
+        return new Promise<KMAnalyticsEvent[]>((resolve) => {
+            const reader = new FileReader()
+            reader.onload = () => resolve(JSON.parse(reader.result as string))
+            reader.readAsText(body)
+        })
+    }
+
+    it("sends a batch once it is full", async () => {
+        const bodies = stubBeacon()
+        const analytics = createBeaconAnalytics({ endpoint: "/events", batchSize: 2 })
+        analytics.track(event("a"))
+        analytics.track(event("b"))
+        analytics.track(event("c"))
+
+        expect(bodies).toHaveLength(1)
+        expect(await read(bodies[0])).toEqual([event("a"), event("b")])
+    })
+
+    it("sends queued events after the interval or when flushed", () => {
+        const bodies = stubBeacon()
+        const analytics = createBeaconAnalytics({ endpoint: "/events", interval: 1000 })
+        analytics.track(event("a"))
+        vi.advanceTimersByTime(1000)
+        expect(bodies).toHaveLength(1)
+
+        analytics.track(event("b"))
+        analytics.flush!()
+        analytics.flush!()
+        expect(bodies).toHaveLength(2)
+    })
+
+    it("posts with fetch when the beacon can't be queued", () => {
+        stubBeacon(false)
+        const fetch = vi.fn(async () => new Response())
+        vi.stubGlobal("fetch", fetch)
+
+        const analytics = createBeaconAnalytics({ endpoint: "/events" })
+        analytics.track(event("a"))
+        analytics.flush!()
+        expect(fetch).toHaveBeenCalledWith("/events", expect.objectContaining({ method: "POST", keepalive: true }))
+    })
+})
@@ -0,0 +1,229 @@
+import { randomId } from "./ids"
+
+/**
+ * Fields shared by every analytics event.
+ *
+ * - `formId` - `TypeForm.id` of the form.
+ * - `session` - random ID of one visit to the form, so that the events of a visit can be grouped.
+ * - `at` - time of the event in milliseconds since the epoch.
+ */
+export type KMAnalyticsContext = {
+    formId: string,
+    session: string,
+    at: number
+}
+
+/**
+ * An interaction with a form, sent to the `analytics` of `KMFormView`.
+ *
+ * - `formLoaded` - the form was fetched. Sent for closed and upcoming forms too.
+ * - `questionShown` - a question was displayed for the first time, either on a new page or because its
+ *   `visibleWhen` rule started to match.
+ * - `questionFocused` - the focus moved into a question.
+ * - `questionChanged` - the answer to a question changed. Sent once per visit of the focus to the question rather than
+ *   for every key stroke.
+ * - `questionCompleted` - the focus left an answered question. `timeSpent` is the total number of milliseconds the
+ *   focus has spent in the question so far.
+ * - `validationFailed` - going to the next page or submitting was stopped by invalid answers.
+ * - `submitAttempted`, `submitSucceeded` and `submitFailed` - the user pressed Submit and how that went. `duration`
+ *   is the number of milliseconds since the form was loaded. `error` is the name of the error, e.g. `KMNetworkError`.
+ * - `formAbandoned` - the page was hidden (`"hidden"`, e.g. another tab was opened) or unloaded (`"pagehide"`) before the
+ *   form was submitted. `lastQuestionId` is the question that last had the focus. A hidden page may be opened again,
+ *   so count a visit as abandoned only if no later event of the same `session` follows.
+ */
+export type KMAnalyticsEvent = KMAnalyticsContext & (
+    | { type: "formLoaded", questionCount: number }
+    | { type: "questionShown", questionId: string }
+    | { type: "questionFocused", questionId: string }
+    | { type: "questionChanged", questionId: string }
+    | { type: "questionCompleted", questionId: string, timeSpent: number }
+    | { type: "validationFailed", questionIds: string[] }
+    | { type: "submitAttempted" }
+    | { type: "submitSucceeded", duration: number }
+    | { type: "submitFailed", duration: number, error: string }
+    | { type: "formAbandoned", reason: "hidden" | "pagehide", lastQuestionId?: string, answered: number, duration: number }
+)
+
+/**
+ * Distributes `Omit` over the members of a union, so that the event types stay discriminated.
+ *
+ * @private
+ */
+type _WithoutContext<T> = T extends unknown ? Omit<T, keyof KMAnalyticsContext> : never
+
+/**
+ * An analytics event without the fields that the tracker fills in.
+ */
+export type KMAnalyticsEventData = _WithoutContext<KMAnalyticsEvent>
+
+/**
+ * Receives the analytics events of `KMFormView`, e.g. to forward them to an analytics service.
+ *
+ * - `track` - called for every event. Must not throw.
+ * - `flush` - called when the page is about to be hidden or unloaded. Adapters that batch events should send them here.
+ */
+export type KMAnalyticsAdapter = {
+    track: (event: KMAnalyticsEvent) => void,
+    flush?: () => void
+}
+
+/**
+ * Adapter that ignores every event. Used when `KMFormView` is given no `analytics`.
+ */
+export const noopAnalytics: KMAnalyticsAdapter = {
+    track: () => {}
+}
+
+/**
+ * Returns `analytics` as an adapter. A callback is wrapped into an adapter without `flush`.
+ *
+ * @param analytics An adapter, a callback or `undefined` for `noopAnalytics`
+ */
+export function toAnalyticsAdapter(analytics?: KMAnalyticsAdapter | ((event: KMAnalyticsEvent) => void)): KMAnalyticsAdapter {
+    if (analytics == undefined) return noopAnalytics
+    if (typeof analytics == "function") return { track: analytics }
+    return analytics
+}
+
+/**
+ * Settings of `createBeaconAnalytics`.
+ *
+ * - `endpoint` - URL the events are posted to. `navigator.sendBeacon` can't send headers, so put anything the endpoint
+ *   needs to identify the sender into the URL.
+ * - `batchSize` - Events are sent as soon as this many are queued. Defaults to `20`.
+ * - `interval` - Milliseconds a queued event waits at most before it is sent. Defaults to `5000`.
+ */
+export type KMBeaconOptions = {
+    endpoint: string,
+    batchSize?: number,
+    interval?: number
+}
+
+/**
+ * Adapter that posts the events to `options.endpoint` in batches.
+ *
+ * Each batch is a JSON array of `KMAnalyticsEvent`s, sent with `navigator.sendBeacon` as `text/plain` so that
+ * cross-origin endpoints don't need a preflight request. If the beacon can't be queued, `fetch` with `keepalive` is
+ * used instead. `KMFormView` flushes the queue when the page is hidden, so events aren't lost when the tab is closed.
+ *
+ * @example
+ * <KMFormView analytics={createBeaconAnalytics({ endpoint: "https://example.com/events?site=docs" })} ... />
+ *
+ * @param options
+ * @since 0.0.0
+ */
+export function createBeaconAnalytics(options: KMBeaconOptions): KMAnalyticsAdapter {
+    const batchSize = options.batchSize ?? 20
+    const queue: KMAnalyticsEvent[] = []
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    function flush() {
+        clearTimeout(timer)
+        timer = undefined
+        if (queue.length == 0) return
+
+        const body = JSON.stringify(queue.splice(0))
+        const queued = typeof navigator.sendBeacon == "function" &&
+            navigator.sendBeacon(options.endpoint, new Blob([body], { type: "text/plain" }))
+        if (!queued) {
+            fetch(options.endpoint, { method: "POST", body: body, keepalive: true, headers: { "Content-Type": "text/plain" } })
+                // Lost events are acceptable, failing requests must not surface as unhandled rejections.
+                .catch(() => {})
+        }
+    }
+
+    return {
+        track(event) {
+            queue.push(event)
+            if (queue.length >= batchSize) flush()
+            else timer ??= setTimeout(flush, options.interval ?? 5000)
+        },
+        flush
+    }
+}
+
+/**
+ * Turns what happens in a form into analytics events, keeping track of which question has the focus and for how long.
+ *
+ * Used by `KMFormView`. Every method is safe to call repeatedly, e.g. `focus` for every `focusin` inside a question.
+ *
+ * @param formId `TypeForm.id`
+ * @param adapter Receives the events
+ */
+export function createFormTracker(formId: string, adapter: KMAnalyticsAdapter) {
+    const session = randomId()
+    const startedAt = Date.now()
+
+    const shownQuestions = new Set<string>()
+    const changedQuestions = new Set<string>()
+    const timeSpent = new Map<string, number>()
+    let focused: { questionId: string, since: number } | undefined
+    let lastQuestionId: string | undefined
+
+    function track(event: KMAnalyticsEventData) {
+        try {
+            adapter.track({ ...event, formId: formId, session: session, at: Date.now() } as KMAnalyticsEvent)
+        } catch (e) {
+            // Analytics must never break the form.
+        }
+    }
+
+    /**
+     * Milliseconds since the tracker was created, i.e. since the form was loaded.
+     */
+    const duration = () => Date.now() - startedAt
+
+    return {
+        track,
+        duration,
+        shown(questionId: string) {
+            if (shownQuestions.has(questionId)) return
+            shownQuestions.add(questionId)
+            track({ type: "questionShown", questionId: questionId })
+        },
+        focus(questionId: string) {
+            if (focused?.questionId == questionId) return
+            focused = { questionId: questionId, since: Date.now() }
+            lastQuestionId = questionId
+            track({ type: "questionFocused", questionId: questionId })
+        },
+        change(questionId: string) {
+            if (changedQuestions.has(questionId)) return
+            changedQuestions.add(questionId)
+            track({ type: "questionChanged", questionId: questionId })
+        },
+        /**
+         * @param questionId
+         * @param answered Whether the question has an answer now. `questionCompleted` is only sent if it does.
+         */
+        blur(questionId: string, answered: boolean) {
+            if (focused?.questionId != questionId) return
+            const total = (timeSpent.get(questionId) ?? 0) + Date.now() - focused.since
+            timeSpent.set(questionId, total)
+            focused = undefined
+            changedQuestions.delete(questionId)
+            if (answered) track({ type: "questionCompleted", questionId: questionId, timeSpent: total })
+        },
+        /**
+         * Sends `formAbandoned`.
+         *
+         * @param reason
+         * @param answered Number of questions that have an answer
+         */
+        abandon(reason: "hidden" | "pagehide", answered: number) {
+            track({ type: "formAbandoned", reason: reason, lastQuestionId: lastQuestionId, answered: answered, duration: duration() })
+        },
+        /**
+         * Asks the adapter to send the events it has queued.
+         */
+        flush() {
+            try {
+                adapter.flush?.()
+            } catch (e) {
+                // Same as `track`, a failing adapter must not break the form.
+            }
+        }
+    }
+}
+
+export type KMFormTracker = ReturnType<typeof createFormTracker>
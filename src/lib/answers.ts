@@ -0,0 +1,50 @@
+import { Question, QuestionType } from "../components/KMTypes"
+import { localise } from "./i18n"
+import { getQuestionRenderer } from "./registry"
+import { parseSelection } from "./selection"
+import { parseUploads } from "./uploads"
+import { isChoiceQuestion } from "./validation"
+
+/**
+ * Converts a stored answer into text that a user can read, e.g. for the review screen.
+ *
+ * - Choice and dropdown questions show the titles of the selected options instead of their IDs.
+ * - File upload questions show the names of the files.
+ * - Dates are written out in `locale`, e.g. `3 March 2024`.
+ * - Scales show the point out of the number of points, e.g. `4 / 5`.
+ *
+ * Types added with `registerQuestionType` use the renderer's `format`, if any.
+ *
+ * @param question
+ * @param value The stored value of the question
+ * @param locale
+ * @returns An empty string if the question hasn't been answered.
+ * @since 0.0.0
+ */
+export function formatAnswer(question: Question, value: string, locale: string): string {
+    if (value == "") return ""
+
+    const format = getQuestionRenderer(question.type)?.format
+    if (format != undefined) return format(value, question, locale)
+
+    if (isChoiceQuestion(question)) {
+        return parseSelection(value)
+            .map((id) => localise(question.options.find((o) => o.id == id)?.title ?? id, locale))
+            .join(", ")
+    }
+
+    switch (question.type) {
+        case QuestionType.fileUpload:
+            return parseUploads(value).map((file) => file.name).join(", ")
+        case QuestionType.date: {
+            // Built from its parts, since `new Date("YYYY-MM-DD")` is midnight UTC and can be the day before locally.
+            const [year, month, day] = value.split("-").map(Number)
+            const date = new Date(year, month - 1, day)
+            return isNaN(date.getTime()) ? value : date.toLocaleDateString(locale, { dateStyle: "long" })
+        }
+        case QuestionType.scale:
+            return `${value} / ${question.scale?.points ?? 5}`
+        default:
+            return value
+    }
+}
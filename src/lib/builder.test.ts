@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+import { removeQuestion, renameQuestion } from "./builder"
+import { parseForm } from "./form-schema"
+import { question, typeForm } from "./test-fixtures"
+
+const fixture = () => typeForm({
+    questions: [
+        question({ id: "a" }),
+        question({ id: "b", visibleWhen: { questionId: "a", notEmpty: true } }),
+        question({ id: "c", visibleWhen: { any: [{ questionId: "a", equals: "yes" }, { questionId: "b", notEmpty: true }] } })
+    ],
+    sections: [{ id: "s", title: "Section", questionIds: ["a", "b"] }]
+})
+
+describe("renameQuestion", () => {
+    it("renames the question and every reference to it", () => {
+        const form = renameQuestion(fixture(), "a", "name")
+
+        expect(form.questions.map((q) => q.id)).toEqual(["name", "b", "c"])
+        expect(form.questions[1].visibleWhen).toEqual({ questionId: "name", notEmpty: true })
+        expect(form.questions[2].visibleWhen).toEqual({ any: [{ questionId: "name", equals: "yes" }, { questionId: "b", notEmpty: true }] })
+        expect(form.sections?.[0].questionIds).toEqual(["name", "b"])
+        expect(() => parseForm(form)).not.toThrow()
+    })
+
+    it("doesn't change the original form", () => {
+        const original = fixture()
+        renameQuestion(original, "a", "name")
+        expect(original).toEqual(fixture())
+    })
+})
+
+describe("removeQuestion", () => {
+    it("removes the question from the sections and from the rules of other questions", () => {
+        const form = removeQuestion(fixture(), 0)
+
+        expect(form.questions.map((q) => q.id)).toEqual(["b", "c"])
+        expect(form.questions[0].visibleWhen).toBeUndefined()
+        expect(form.questions[1].visibleWhen).toEqual({ any: [{ questionId: "b", notEmpty: true }] })
+        expect(form.sections?.[0].questionIds).toEqual(["b"])
+        expect(() => parseForm(form)).not.toThrow()
+    })
+
+    it("removes rules whose conditions all referred to the question", () => {
+        const form = fixture()
+        form.questions[2].visibleWhen = { all: [{ questionId: "a", notEmpty: true }, { any: [{ questionId: "a", equals: "no" }] }] }
+        expect(removeQuestion(form, 0).questions[1].visibleWhen).toBeUndefined()
+    })
+
+    it("only removes the question at the index when its ID is used twice", () => {
+        const form = fixture()
+        form.questions.push(question({ id: "a" }))
+        const removed = removeQuestion(form, 3)
+
+        expect(removed.questions.map((q) => q.id)).toEqual(["a", "b", "c"])
+        expect(removed.questions[1].visibleWhen).toEqual({ questionId: "a", notEmpty: true })
+        expect(removed.sections?.[0].questionIds).toEqual(["a", "b"])
+    })
+})
@@ -0,0 +1,207 @@
+import { LocalisedText, Option, Question, QuestionType, TypeForm, VisibilityRule } from "../components/KMTypes"
+import { parseForm } from "./form-schema"
+import { isChoiceQuestion } from "./validation"
+
+/**
+ * A new, empty form for the form builder.
+ */
+export function emptyForm(): TypeForm {
+    return {
+        id: "new-form",
+        name: "Untitled form",
+        createdAt: new Date().toISOString(),
+        stillAccepting: true,
+        questions: []
+    }
+}
+
+/**
+ * Returns an ID that is not in `taken`, e.g. `question-3`.
+ *
+ * @param prefix
+ * @param taken IDs that are already used
+ */
+export function nextId(prefix: string, taken: string[]) {
+    let n = taken.length + 1
+    while (taken.includes(`${prefix}-${n}`)) n++
+    return `${prefix}-${n}`
+}
+
+/**
+ * A new question of `type` with an unused ID. Choice questions get two options to start with.
+ *
+ * @param form The form the question is added to
+ * @param type
+ */
+export function newQuestion(form: TypeForm, type: QuestionType | string): Question {
+    return changeType({
+        id: nextId("question", form.questions.map((q) => q.id)),
+        prompt: "New question",
+        type: type,
+        options: [],
+        required: false,
+        formId: form.id
+    }, type)
+}
+
+/**
+ * Returns a copy of `question` with a new type.
+ *
+ * Choice questions without options get two options to start with. Other questions lose their options, since they
+ * aren't displayed.
+ *
+ * @param question
+ * @param type
+ */
+export function changeType(question: Question, type: QuestionType | string): Question {
+    const changed = { ...question, type: type }
+    if (!isChoiceQuestion(changed)) return { ...changed, options: [] }
+    if (changed.options.length > 0) return changed
+
+    const first = newOption([])
+    return { ...changed, options: [first, newOption([first])] }
+}
+
+/**
+ * A new option with an unused ID.
+ *
+ * @param options The options of the question the option is added to
+ */
+export function newOption(options: Option[]): Option {
+    const id = nextId("option", options.map((o) => o.id))
+    return { id: id, title: `Option ${options.length + 1}`, subtitle: "" }
+}
+
+/**
+ * Returns `true` if the options of a question have pictures.
+ */
+export function hasImages(question: Question) {
+    return question.type == QuestionType.singleWithImage || question.type == QuestionType.multiWithImage
+}
+
+/**
+ * Returns a copy of `items` with the item at `from` moved to `to`. Out of range moves return `items` unchanged.
+ *
+ * @param items
+ * @param from Index of the item to move
+ * @param to Index the item ends up at
+ */
+export function moveItem<T>(items: T[], from: number, to: number) {
+    if (to < 0 || to >= items.length || from == to) return items
+    const moved = [...items]
+    moved.splice(to, 0, ...moved.splice(from, 1))
+    return moved
+}
+
+/**
+ * Returns `text` with its translation for `locale` replaced by `value`.
+ *
+ * Plain strings are replaced as a whole, since they are used for every locale.
+ *
+ * @param text
+ * @param locale
+ * @param value
+ */
+export function setLocalised(text: LocalisedText | undefined, locale: string, value: string): LocalisedText {
+    if (text == undefined || typeof text == "string") return value
+    return { ...text, [locale]: value }
+}
+
+/**
+ * Returns a copy of `form` without the question at `index`.
+ *
+ * Unless another question has the same ID, the question is also removed from the sections, and the `visibleWhen` rules
+ * of other questions no longer refer to it. A rule whose conditions all referred to the question is removed, so those
+ * questions are always shown.
+ *
+ * @param form
+ * @param index Position of the question in `form.questions`
+ */
+export function removeQuestion(form: TypeForm, index: number): TypeForm {
+    const questionId = form.questions[index]?.id
+    const questions = form.questions.filter((_, i) => i != index)
+    if (questionId == undefined || questions.some((q) => q.id == questionId)) return { ...form, questions: questions }
+
+    return replaceReferences({ ...form, questions: questions }, (id) => id == questionId ? undefined : id)
+}
+
+/**
+ * Returns a copy of `form` in which the question `oldId` is called `newId`, in the sections and in the `visibleWhen`
+ * rules of other questions too.
+ *
+ * If `newId` is already used by another question, that question's references are renamed as well, so check that the
+ * ID is free first.
+ *
+ * @param form
+ * @param oldId
+ * @param newId
+ */
+export function renameQuestion(form: TypeForm, oldId: string, newId: string): TypeForm {
+    const renamed = { ...form, questions: form.questions.map((q) => q.id == oldId ? { ...q, id: newId } : q) }
+    return replaceReferences(renamed, (id) => id == oldId ? newId : id)
+}
+
+/**
+ * Returns a copy of `form` with every question ID in the sections and `visibleWhen` rules replaced by `replace(id)`.
+ * References for which `replace` returns `undefined` are removed.
+ *
+ * @private
+ */
+function replaceReferences(form: TypeForm, replace: (id: string) => string | undefined): TypeForm {
+    return {
+        ...form,
+        questions: form.questions.map((q) => q.visibleWhen == undefined ? q : { ...q, visibleWhen: replaceInRule(q.visibleWhen, replace) }),
+        sections: form.sections?.map((s) => ({
+            ...s,
+            questionIds: s.questionIds.map(replace).filter((id): id is string => id != undefined)
+        }))
+    }
+}
+
+/**
+ * Replaces the question IDs in a rule. `all` and `any` rules that lose every condition are removed too.
+ *
+ * @private
+ */
+function replaceInRule(rule: VisibilityRule, replace: (id: string) => string | undefined): VisibilityRule | undefined {
+    if ("all" in rule || "any" in rule) {
+        const rules = "all" in rule ? rule.all : rule.any
+        const replaced = rules.map((r) => replaceInRule(r, replace)).filter((r): r is VisibilityRule => r != undefined)
+        if (replaced.length == 0 && rules.length > 0) return undefined
+        return "all" in rule ? { all: replaced } : { any: replaced }
+    }
+
+    const questionId = replace(rule.questionId)
+    return questionId == undefined ? undefined : { ...rule, questionId: questionId }
+}
+
+/**
+ * Returns a copy of `form` with a new ID, also updating the `formId` of every question.
+ *
+ * @param form
+ * @param id
+ */
+export function renameForm(form: TypeForm, id: string): TypeForm {
+    return { ...form, id: id, questions: form.questions.map((q) => ({ ...q, formId: id })) }
+}
+
+/**
+ * Serialises a form into the JSON expected by `/form/find`.
+ *
+ * @param form
+ */
+export function exportForm(form: TypeForm) {
+    return JSON.stringify(form, null, 4)
+}
+
+/**
+ * Reads a form from JSON, e.g. a file made with `exportForm`.
+ *
+ * @param json
+ * @throws SyntaxError If `json` is not valid JSON
+ * @throws KMFormSchemaError If the JSON is not a valid `TypeForm`
+ * @see parseForm
+ */
+export function importForm(json: string) {
+    return parseForm(JSON.parse(json))
+}
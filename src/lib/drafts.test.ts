@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { QuestionType } from "../components/KMTypes"
+import { discardDraft, loadDraft, saveDraft } from "./drafts"
+import { options, question, typeForm } from "./test-fixtures"
+
+const fixture = () => typeForm({
+    questions: [
+        question({ id: "name" }),
+        question({ id: "colour", type: QuestionType.single, options: options("red", "blue") })
+    ]
+})
+
+beforeEach(() => localStorage.clear())
+afterEach(() => {
+    vi.restoreAllMocks()
+})
+
+describe("drafts", () => {
+    it("restores the saved answers", () => {
+        saveDraft(fixture(), [{ questionId: "name", value: "Ada" }, { questionId: "colour", value: "" }])
+
+        const draft = loadDraft(fixture())
+        expect(draft?.values).toEqual([{ questionId: "name", value: "Ada" }, { questionId: "colour", value: "" }])
+        expect(Date.parse(draft!.savedAt)).not.toBeNaN()
+    })
+
+    it("discards the draft instead of saving one without answers", () => {
+        saveDraft(fixture(), [{ questionId: "name", value: "Ada" }])
+        saveDraft(fixture(), [{ questionId: "name", value: "" }])
+        expect(loadDraft(fixture())).toBeUndefined()
+    })
+
+    it("discards drafts of a form whose questions have changed", () => {
+        saveDraft(fixture(), [{ questionId: "name", value: "Ada" }])
+
+        const changed = fixture()
+        changed.questions[1].options = options("red", "green")
+        expect(loadDraft(changed)).toBeUndefined()
+        expect(loadDraft(fixture())).toBeUndefined()
+    })
+
+    it("keeps drafts when only the text of the form has changed", () => {
+        saveDraft(fixture(), [{ questionId: "name", value: "Ada" }])
+        expect(loadDraft({ ...fixture(), name: "Renamed" })).toBeDefined()
+    })
+
+    it("ignores drafts that are not valid JSON", () => {
+        localStorage.setItem("kmform-draft:f", "{")
+        expect(loadDraft(fixture())).toBeUndefined()
+    })
+
+    it("keeps working when storage fails", () => {
+        vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => { throw new DOMException("Full", "QuotaExceededError") })
+        expect(() => saveDraft(fixture(), [{ questionId: "name", value: "Ada" }])).not.toThrow()
+        expect(loadDraft(fixture())).toBeUndefined()
+    })
+
+    it("removes the draft of one form only", () => {
+        saveDraft(fixture(), [{ questionId: "name", value: "Ada" }])
+        saveDraft({ ...fixture(), id: "other" }, [{ questionId: "name", value: "Grace" }])
+
+        discardDraft("f")
+        expect(loadDraft(fixture())).toBeUndefined()
+        expect(loadDraft({ ...fixture(), id: "other" })?.values).toEqual([{ questionId: "name", value: "Grace" }])
+    })
+})
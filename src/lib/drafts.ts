@@ -0,0 +1,87 @@
+import { QuestionResponse, TypeForm } from "../components/KMTypes"
+
+/**
+ * A half-filled form that is kept in `localStorage`.
+ *
+ * - `signature` - structure of the form when the draft was saved. See `formSignature`.
+ * - `savedAt` - ISO timestamp of when the draft was last saved.
+ * - `values` - the answers the user had given so far.
+ */
+export type Draft = {
+    signature: string,
+    savedAt: string,
+    values: QuestionResponse[]
+}
+
+const draftKey = (formId: string) => `kmform-draft:${formId}`
+
+/**
+ * Describes the structure of a form, i.e. its questions, their types and their options.
+ *
+ * A draft is only restored if the signature of the form it was saved for matches the form that is being displayed.
+ * This way a draft is not restored into a form whose questions have changed since.
+ *
+ * @param form
+ */
+export function formSignature(form: TypeForm) {
+    return JSON.stringify(form.questions.map((q) => [q.id, q.type, q.options.map((o) => o.id)]))
+}
+
+/**
+ * Loads the saved draft for a form.
+ *
+ * Drafts that were saved for a different version of the form are discarded.
+ *
+ * @param form The form that is being displayed
+ * @returns The draft, or `undefined` if there is none.
+ */
+export function loadDraft(form: TypeForm): Draft | undefined {
+    try {
+        const stored = localStorage.getItem(draftKey(form.id))
+        if (stored == null) return undefined
+
+        const draft = JSON.parse(stored) as Draft
+        if (draft.signature == formSignature(form) && Array.isArray(draft.values)) return draft
+
+        discardDraft(form.id)
+    } catch (e) {
+        // Storage may be disabled or the draft may not be valid JSON, in which case the form starts empty.
+    }
+    return undefined
+}
+
+/**
+ * Saves the answers for a form as a draft.
+ *
+ * If none of the questions have been answered, the saved draft is discarded instead.
+ *
+ * @param form The form that is being displayed
+ * @param values Current answers to the form
+ */
+export function saveDraft(form: TypeForm, values: QuestionResponse[]) {
+    if (values.every((v) => v.value == "")) return discardDraft(form.id)
+
+    const draft: Draft = {
+        signature: formSignature(form),
+        savedAt: new Date().toISOString(),
+        values: values.map((v) => ({ questionId: v.questionId, value: v.value }))
+    }
+
+    try {
+        localStorage.setItem(draftKey(form.id), JSON.stringify(draft))
+    } catch (e) {
+        // Storage may be full or disabled, in which case the form simply works without drafts.
+    }
+}
+
+/**
+ * Removes the saved draft for a form, if any.
+ * @param formId `TypeForm.id`
+ */
+export function discardDraft(formId: string) {
+    try {
+        localStorage.removeItem(draftKey(formId))
+    } catch (e) {
+        // Nothing was saved if storage is disabled.
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import { KMFormSchemaError } from "../api/errors"
+import { QuestionType } from "../components/KMTypes"
+import { parseForm } from "./form-schema"
+import { options, question, typeForm } from "./test-fixtures"
+
+/**
+ * A valid form as plain objects, so that the tests can break any field of it.
+ */
+const validForm = () => {
+    const form = typeForm({
+        questions: [
+            question({ id: "name", prompt: "Name", required: true }),
+            question({ id: "colour", prompt: "Colour", type: QuestionType.single, options: options("red", "blue") })
+        ]
+    })
+    return { ...form, questions: form.questions as Record<string, unknown>[] }
+}
+
+/**
+ * Returns the issues `parseForm` reports for `data`.
+ */
+function issues(data: unknown) {
+    try {
+        parseForm(data)
+    } catch (e) {
+        if (e instanceof KMFormSchemaError) return e.issues
+        throw e
+    }
+    return []
+}
+
+describe("parseForm", () => {
+    it("returns a valid form", () => {
+        const form = validForm()
+        expect(parseForm(form)).toBe(form)
+    })
+
+    it("rejects a payload that isn't an object", () => {
+        expect(issues(null)).toEqual(["form: expected an object"])
+        expect(issues([])).toEqual(["form: expected an object"])
+    })
+
+    it("reports every problem with its path", () => {
+        const form = { ...validForm(), id: "", stillAccepting: "yes" }
+        form.questions[0].required = undefined
+        expect(issues(form)).toEqual([
+            "id: expected a non-empty string",
+            "stillAccepting: expected a boolean",
+            "questions[0].required: expected a boolean"
+        ])
+    })
+
+    it("reports duplicate IDs", () => {
+        const form = validForm()
+        form.questions[1].id = "name"
+        expect(issues(form)).toContain("questions[1].id: duplicate question ID \"name\"")
+    })
+
+    it("reports questions of another form", () => {
+        const form = validForm()
+        form.questions[0].formId = "other"
+        expect(issues(form)).toEqual(["questions[0].formId: expected \"f\", the ID of the form, but got \"other\""])
+    })
+
+    it("reports choice questions without options", () => {
+        const form = validForm()
+        form.questions[1].options = []
+        expect(issues(form)).toEqual(["questions[1].options: expected at least one option"])
+    })
+
+    it("reports invalid patterns", () => {
+        const form = validForm()
+        form.questions[0].validation = { pattern: "(" }
+        expect(issues(form)).toEqual(["questions[0].validation.pattern: expected a valid regular expression"])
+    })
+
+    it("reports visibility rules and sections that refer to unknown questions", () => {
+        const form = {
+            ...validForm(),
+            sections: [{ id: "s", title: "Section", questionIds: ["name", "missing"] }]
+        }
+        form.questions[1].visibleWhen = { questionId: "missing", equals: "x" }
+        const found = issues(form)
+        expect(found).toContain("sections[0].questionIds[1]: unknown question \"missing\"")
+        expect(found).toContain("questions[1].visibleWhen.questionId: unknown question \"missing\"")
+    })
+
+    it("requires closesAt to be after opensAt", () => {
+        expect(issues({ ...validForm(), opensAt: "2024-06-01T00:00:00Z", closesAt: "2024-05-01T00:00:00Z" }))
+            .toEqual(["closesAt: must be after opensAt"])
+        expect(issues({ ...validForm(), opensAt: "soon" })).toEqual(["opensAt: expected an ISO 8601 date"])
+    })
+})
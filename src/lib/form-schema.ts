@@ -0,0 +1,247 @@
+import { Option, Question, TypeForm } from "../components/KMTypes"
+import { KMFormSchemaError } from "../api/errors"
+import { isChoiceQuestion } from "./validation"
+
+/**
+ * Collects the problems found in a payload, each prefixed with the path of the value, e.g.
+ * `questions[2].options[0].id: expected a string`.
+ *
+ * @private
+ */
+class _Checker {
+    readonly issues: string[] = []
+
+    fail(path: string, problem: string) {
+        this.issues.push(`${path}: ${problem}`)
+    }
+
+    object(value: unknown, path: string): value is Record<string, unknown> {
+        if (typeof value == "object" && value != null && !Array.isArray(value)) return true
+        this.fail(path, "expected an object")
+        return false
+    }
+
+    array(value: unknown, path: string): value is unknown[] {
+        if (Array.isArray(value)) return true
+        this.fail(path, "expected an array")
+        return false
+    }
+
+    string(value: unknown, path: string, optional = false) {
+        if (typeof value == "string" || (optional && value == undefined)) return true
+        this.fail(path, "expected a string")
+        return false
+    }
+
+    id(value: unknown, path: string) {
+        if (typeof value == "string" && value != "") return true
+        this.fail(path, "expected a non-empty string")
+        return false
+    }
+
+    number(value: unknown, path: string, optional = false) {
+        if ((typeof value == "number" && isFinite(value)) || (optional && value == undefined)) return true
+        this.fail(path, "expected a number")
+        return false
+    }
+
+    /**
+     * Checks a string that `Date.parse` understands, e.g. an ISO 8601 date.
+     */
+    date(value: unknown, path: string, optional = false) {
+        if ((typeof value == "string" && !isNaN(Date.parse(value))) || (optional && value == undefined)) return true
+        this.fail(path, "expected an ISO 8601 date")
+        return false
+    }
+
+    boolean(value: unknown, path: string, optional = false) {
+        if (typeof value == "boolean" || (optional && value == undefined)) return true
+        this.fail(path, "expected a boolean")
+        return false
+    }
+
+    /**
+     * Checks a `LocalisedText`, i.e. a string or an object of strings keyed by locale.
+     */
+    text(value: unknown, path: string, optional = false) {
+        if (typeof value == "string" || (optional && value == undefined)) return true
+        if (typeof value == "object" && value != null && !Array.isArray(value) &&
+            Object.values(value).every((v) => typeof v == "string")) return true
+        this.fail(path, "expected a string or an object of strings keyed by locale")
+        return false
+    }
+
+    /**
+     * Reports every ID that appears more than once.
+     */
+    unique(ids: unknown[], path: (i: number) => string, what: string) {
+        const seen = new Set<unknown>()
+        ids.forEach((id, i) => {
+            if (seen.has(id)) this.fail(path(i), `duplicate ${what} "${id}"`)
+            seen.add(id)
+        })
+    }
+}
+
+/**
+ * Checks that a payload received from `/form/find` is a `TypeForm`.
+ *
+ * Besides the shape of the payload, this checks that question, option and section IDs are unique, that every question
+ * belongs to the form (`formId`), that sections and visibility rules only refer to questions of the form and that
+ * `closesAt` is after `opensAt`.
+ *
+ * Questions of types that are not built in are accepted, since they may be handled by `registerQuestionType`.
+ *
+ * @param data The parsed JSON body
+ * @returns `data`, typed as a `TypeForm`
+ * @throws KMFormSchemaError with every problem that was found
+ * @since 0.0.0
+ */
+export function parseForm(data: unknown): TypeForm {
+    const check = new _Checker()
+
+    if (check.object(data, "form")) {
+        const validId = check.id(data.id, "id")
+        check.string(data.name, "name")
+        check.string(data.createdAt, "createdAt")
+        check.boolean(data.stillAccepting, "stillAccepting")
+        const validSchedule = [check.date(data.opensAt, "opensAt", true), check.date(data.closesAt, "closesAt", true)]
+        if (validSchedule.every(Boolean) && data.opensAt != undefined && data.closesAt != undefined &&
+            Date.parse(data.opensAt as string) >= Date.parse(data.closesAt as string)) {
+            check.fail("closesAt", "must be after opensAt")
+        }
+
+        if (check.array(data.questions, "questions")) {
+            const questions = data.questions
+            questions.forEach((q, i) => checkQuestion(check, q, `questions[${i}]`, validId ? data.id as string : undefined))
+
+            const ids: unknown[] = questions.map((q) => (q as Question | undefined)?.id)
+            check.unique(ids, (i) => `questions[${i}].id`, "question ID")
+
+            questions.forEach((q, i) => {
+                if (typeof q == "object" && q != null && "visibleWhen" in q && q.visibleWhen != undefined) {
+                    checkVisibilityRule(check, q.visibleWhen, `questions[${i}].visibleWhen`, ids)
+                }
+            })
+
+            if (data.sections != undefined && check.array(data.sections, "sections")) {
+                data.sections.forEach((s, i) => {
+                    const path = `sections[${i}]`
+                    if (!check.object(s, path)) return
+                    check.id(s.id, `${path}.id`)
+                    check.text(s.title, `${path}.title`)
+                    check.text(s.description, `${path}.description`, true)
+                    if (check.array(s.questionIds, `${path}.questionIds`)) {
+                        s.questionIds.forEach((id, j) => {
+                            if (check.string(id, `${path}.questionIds[${j}]`) && !ids.includes(id)) {
+                                check.fail(`${path}.questionIds[${j}]`, `unknown question "${id}"`)
+                            }
+                        })
+                    }
+                })
+                check.unique(data.sections.map((s) => (s as { id?: unknown } | undefined)?.id), (i) => `sections[${i}].id`, "section ID")
+            }
+        }
+    }
+
+    if (check.issues.length > 0) throw new KMFormSchemaError(check.issues)
+    return data as TypeForm
+}
+
+/**
+ * @private
+ */
+function checkQuestion(check: _Checker, q: unknown, path: string, formId?: string) {
+    if (!check.object(q, path)) return
+
+    check.id(q.id, `${path}.id`)
+    check.text(q.prompt, `${path}.prompt`)
+    check.text(q.description, `${path}.description`, true)
+    check.id(q.type, `${path}.type`)
+    check.boolean(q.required, `${path}.required`)
+    check.string(q.default, `${path}.default`, true)
+    check.boolean(q.lockPrefilled, `${path}.lockPrefilled`, true)
+    check.text(q.placeholder, `${path}.placeholder`, true)
+    check.number(q.step, `${path}.step`, true)
+
+    if (check.string(q.formId, `${path}.formId`) && formId != undefined && q.formId != formId) {
+        check.fail(`${path}.formId`, `expected "${formId}", the ID of the form, but got "${q.formId}"`)
+    }
+
+    if (check.array(q.options, `${path}.options`)) {
+        q.options.forEach((o, i) => checkOption(check, o, `${path}.options[${i}]`))
+        check.unique(q.options.map((o) => (o as Option | undefined)?.id), (i) => `${path}.options[${i}].id`, "option ID")
+        if (q.options.length == 0 && typeof q.type == "string" && isChoiceQuestion(q as Question)) {
+            check.fail(`${path}.options`, "expected at least one option")
+        }
+    }
+
+    if (q.validation != undefined && check.object(q.validation, `${path}.validation`)) {
+        const v = q.validation
+        for (const key of ["minLength", "maxLength", "min", "max", "minSelections", "maxSelections"]) {
+            check.number(v[key], `${path}.validation.${key}`, true)
+        }
+        for (const key of ["earliest", "latest"]) {
+            check.string(v[key], `${path}.validation.${key}`, true)
+        }
+        if (check.string(v.pattern, `${path}.validation.pattern`, true) && v.pattern != undefined) {
+            try {
+                new RegExp(v.pattern as string)
+            } catch (e) {
+                check.fail(`${path}.validation.pattern`, "expected a valid regular expression")
+            }
+        }
+        check.text(v.patternMessage, `${path}.validation.patternMessage`, true)
+    }
+
+    if (q.scale != undefined && check.object(q.scale, `${path}.scale`)) {
+        check.number(q.scale.points, `${path}.scale.points`)
+        check.text(q.scale.minLabel, `${path}.scale.minLabel`, true)
+        check.text(q.scale.maxLabel, `${path}.scale.maxLabel`, true)
+    }
+
+    if (q.files != undefined && check.object(q.files, `${path}.files`)) {
+        if (q.files.accept != undefined && check.array(q.files.accept, `${path}.files.accept`)) {
+            q.files.accept.forEach((a, i) => check.string(a, `${path}.files.accept[${i}]`))
+        }
+        check.number(q.files.maxSize, `${path}.files.maxSize`, true)
+        check.number(q.files.maxCount, `${path}.files.maxCount`, true)
+    }
+
+    if (q.settings != undefined) check.object(q.settings, `${path}.settings`)
+}
+
+/**
+ * @private
+ */
+function checkOption(check: _Checker, o: unknown, path: string) {
+    if (!check.object(o, path)) return
+
+    check.id(o.id, `${path}.id`)
+    check.text(o.title, `${path}.title`)
+    check.text(o.subtitle, `${path}.subtitle`)
+    check.string(o.image, `${path}.image`, true)
+    check.text(o.imageAlt, `${path}.imageAlt`, true)
+}
+
+/**
+ * @private
+ */
+function checkVisibilityRule(check: _Checker, rule: unknown, path: string, questionIds: unknown[]) {
+    if (!check.object(rule, path)) return
+
+    for (const key of ["all", "any"]) {
+        if (rule[key] == undefined) continue
+        if (check.array(rule[key], `${path}.${key}`)) {
+            (rule[key] as unknown[]).forEach((r, i) => checkVisibilityRule(check, r, `${path}.${key}[${i}]`, questionIds))
+        }
+        return
+    }
+
+    if (check.string(rule.questionId, `${path}.questionId`) && !questionIds.includes(rule.questionId)) {
+        check.fail(`${path}.questionId`, `unknown question "${rule.questionId}"`)
+    }
+    if ("equals" in rule) check.string(rule.equals, `${path}.equals`)
+    else if ("includes" in rule) check.string(rule.includes, `${path}.includes`)
+    else if (rule.notEmpty !== true) check.fail(path, "expected one of equals, includes or notEmpty")
+}
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createRoot } from "solid-js"
+import { FormResponse, QuestionType } from "../components/KMTypes"
+import { createKMClient } from "../api/client"
+import { KMClosedFormError, KMNetworkError, KMValidationError } from "../api/errors"
+import { createKMForm, KMFormOptions } from "./form"
+import { question, typeForm } from "./test-fixtures"
+
+const fixture = () => typeForm({
+    questions: [
+        question({ id: "name", prompt: "Name", required: true }),
+        question({ id: "age", prompt: "Age", type: QuestionType.number, validation: { min: 0 } }),
+        question({ id: "team", prompt: "Team", default: "blue" })
+    ]
+})
+
+/**
+ * Creates a form whose client submits with `submitResponse`.
+ */
+function setup(submitResponse = vi.fn(async (_data: FormResponse, _options?: unknown) => {}), options: KMFormOptions = {}, data = fixture()) {
+    return createRoot((dispose) => {
+        const client = { ...createKMClient(), submitResponse: submitResponse }
+        disposers.push(dispose)
+        return { form: createKMForm(data, { client: client, ...options }), submitResponse: submitResponse }
+    })
+}
+
+const disposers: (() => void)[] = []
+
+beforeEach(() => localStorage.clear())
+afterEach(() => disposers.splice(0).forEach((dispose) => dispose()))
+
+describe("createKMForm", () => {
+    it("starts with the prefilled answers", () => {
+        const { form } = setup(undefined, { prefill: { name: "Ada" } })
+        expect(form.value("name")).toBe("Ada")
+        expect(form.value("team")).toBe("blue")
+        expect(form.value("age")).toBe("")
+    })
+
+    describe("validate", () => {
+        it("stores the errors of the visible questions", () => {
+            const { form } = setup()
+            form.setValue("age", "-1")
+
+            const found = form.validate()
+            expect(Object.keys(found)).toEqual(["name", "age"])
+            expect(form.errors.name).toBe("This question is required.")
+        })
+
+        it("clears the error of a question when its value changes", () => {
+            const { form } = setup()
+            form.validate()
+            form.setValue("name", "Ada")
+            expect(form.errors.name).toBeUndefined()
+        })
+
+        it("fails while files are uploading", () => {
+            const { form } = setup()
+            form.setValue("name", "Ada")
+            form.setUploading("name", 1)
+            expect(form.validate()).toEqual({ name: expect.any(String) })
+            form.setUploading("name", 0)
+            expect(form.validate()).toEqual({})
+        })
+    })
+
+    describe("isDirty", () => {
+        it("compares the answers with the prefilled ones", () => {
+            const { form } = setup()
+            expect(form.isDirty()).toBe(false)
+
+            form.setValue("team", "red")
+            expect(form.isDirty("team")).toBe(true)
+            expect(form.isDirty("name")).toBe(false)
+
+            form.setValue("team", "blue")
+            expect(form.isDirty()).toBe(false)
+        })
+    })
+
+    describe("reset", () => {
+        it("restores the prefilled answers and starts a new submission", () => {
+            const { form } = setup()
+            const key = form.submissionKey()
+            form.setValue("team", "red")
+            form.validate()
+
+            form.reset()
+            expect(form.value("team")).toBe("blue")
+            expect(form.errors).toEqual({})
+            expect(form.isTouched("team")).toBe(false)
+            expect(form.submissionKey()).not.toBe(key)
+        })
+    })
+
+    describe("submit", () => {
+        it("doesn't send invalid answers", async () => {
+            const { form, submitResponse } = setup()
+            expect(await form.submit()).toBe(false)
+            expect(submitResponse).not.toHaveBeenCalled()
+            expect(form.errors.name).toBeDefined()
+        })
+
+        it("sends the visible answers with the submission key", async () => {
+            const { form, submitResponse } = setup()
+            form.setValue("name", "Ada")
+
+            expect(await form.submit()).toBe(true)
+            expect(form.submitted()).toBe(true)
+            expect(submitResponse).toHaveBeenCalledWith({
+                formId: "f",
+                questionResponses: [
+                    { questionId: "name", value: "Ada" },
+                    { questionId: "age", value: "" },
+                    { questionId: "team", value: "blue" }
+                ]
+            }, { idempotencyKey: form.submissionKey() })
+        })
+
+        it("keeps the answers and the key after a failure, so that the user can try again", async () => {
+            const error = new KMNetworkError("offline")
+            const { form, submitResponse } = setup(vi.fn().mockRejectedValueOnce(error).mockResolvedValueOnce(undefined))
+            form.setValue("name", "Ada")
+
+            expect(await form.submit()).toBe(false)
+            expect(form.submitError()).toBe(error)
+            expect(form.value("name")).toBe("Ada")
+
+            expect(await form.submit()).toBe(true)
+            expect(form.submitError()).toBeUndefined()
+            expect(submitResponse.mock.calls[0][1]).toEqual(submitResponse.mock.calls[1][1])
+        })
+
+        it("shows the answers the backend rejected as errors", async () => {
+            const error = new KMValidationError("rejected", 422, { errors: { name: "Already registered", unknown: "x" } })
+            const { form } = setup(vi.fn().mockRejectedValue(error))
+            form.setValue("name", "Ada")
+
+            expect(await form.submit()).toBe(false)
+            expect(form.errors).toEqual({ name: "Already registered" })
+        })
+
+        it("doesn't send anything once the form has closed", async () => {
+            const { form, submitResponse } = setup(undefined, {}, { ...fixture(), closesAt: "2000-01-01T00:00:00Z" })
+            form.setValue("name", "Ada")
+
+            expect(await form.submit()).toBe(false)
+            expect(form.submitError()).toBeInstanceOf(KMClosedFormError)
+            expect(submitResponse).not.toHaveBeenCalled()
+        })
+    })
+})
@@ -0,0 +1,333 @@
+import { createEffect, createSignal, on } from "solid-js"
+import { createStore, reconcile } from "solid-js/store"
+import { FormResponse, Question, QuestionResponse, TypeForm } from "../components/KMTypes"
+import { createKMClient, KMClient } from "../api/client"
+import { KMClosedFormError, KMValidationError } from "../api/errors"
+import { discardDraft, loadDraft, saveDraft } from "./drafts"
+import { en, I18n } from "./i18n"
+import { buildPages } from "./pages"
+import { randomId } from "./ids"
+import { prefillValue } from "./prefill"
+import { getQuestionRenderer } from "./registry"
+import { formStatus } from "./schedule"
+import { validateResponses } from "./validation"
+import { isQuestionVisible } from "./visibility"
+
+/**
+ * Settings of `createKMForm`.
+ *
+ * - `client` - Used by `submit`. Defaults to `createKMClient()`.
+ * - `i18n` - Locale and messages used for validation errors. Defaults to English.
+ * - `serialize` - Converts a stored value into the value that is submitted. Defaults to the `serialize` function of
+ * the question's registered renderer, if any.
+ * - `drafts` - Set to `false` to neither restore nor autosave drafts in `localStorage`.
+ * - `prefill` - Answers the form starts with, keyed by question ID. Take precedence over `Question.default`. See
+ * `prefillValue` for the accepted formats.
+ */
+export type KMFormOptions = {
+    client?: KMClient,
+    i18n?: I18n,
+    serialize?: (value: string, question: Question) => string,
+    drafts?: boolean,
+    prefill?: Record<string, string>
+}
+
+export type KMForm = ReturnType<typeof createKMForm>
+
+/**
+ * Headless state of a form: answers, validation, visibility, pages, drafts and submission.
+ *
+ * `KMFormView` is a renderer on top of this primitive. Use it directly to build a custom layout with the same
+ * behaviour. Everything returned is reactive, so it can be read inside JSX or effects. Like other Solid primitives, it
+ * must be called inside a component or another reactive owner.
+ *
+ * @example
+ * const form = createKMForm(typeForm, { client: createKMClient({ apiKey: "..." }) })
+ * form.setValue("name", "Ada")
+ * if (await form.submit()) console.log("Submitted!")
+ *
+ * @param form The form to fill out
+ * @param options
+ * @since 0.0.0
+ */
+export function createKMForm(form: TypeForm, options: KMFormOptions = {}) {
+    const client = options.client ?? createKMClient()
+    const i18n = options.i18n ?? { locale: () => "en", messages: () => en }
+
+    /**
+     * Value of a question before the user has answered it: its prefilled answer, if any.
+     */
+    const initialValue = (question: Question) => prefillValue(question, options.prefill?.[question.id] ?? question.default)
+
+    /**
+     * Returns `true` if the answer to a question was prefilled and can't be changed, see `Question.lockPrefilled`.
+     * @param id ID of the question
+     */
+    const isLocked = (id: string) => {
+        const question = form.questions.find((q) => q.id == id)
+        return question?.lockPrefilled == true && initialValue(question) != ""
+    }
+
+    const initialValues = () => form.questions.map((q) => ({ questionId: q.id, value: initialValue(q) })) as QuestionResponse[]
+
+    const [values, setValues] = createStore<QuestionResponse[]>(initialValues())
+
+    /**
+     * Validation errors keyed by `questionId`.
+     *
+     * Populated by `validate`. The error for a question is cleared as soon as its value changes.
+     */
+    const [errors, setErrors] = createStore<Record<string, string | undefined>>({})
+
+    /**
+     * IDs of the questions whose value has been set by the user.
+     */
+    const [touched, setTouched] = createStore<Record<string, boolean>>({})
+
+    /**
+     * Number of file uploads in progress, keyed by `questionId`. An answer whose files are still uploading is
+     * incomplete, so it fails validation until they have finished.
+     */
+    const [uploads, setUploads] = createStore<Record<string, number>>({})
+
+    const [submitting, setSubmitting] = createSignal(false)
+    const [submitted, setSubmitted] = createSignal(false)
+
+    /**
+     * The error of the last submission attempt, if it failed. The answers are kept so that the user can try again.
+     */
+    const [submitError, setSubmitError] = createSignal<unknown>()
+
+    /**
+     * Idempotency key of this filled form, sent with every attempt to submit it so that the backend records the
+     * response only once. `reset` starts a new response with a new key.
+     */
+    const [submissionKey, setSubmissionKey] = createSignal(randomId())
+
+    /**
+     * Answers from a previous visit that were saved in `localStorage`, if any.
+     */
+    const draft = options.drafts == false ? undefined : loadDraft(form)
+
+    /**
+     * `true` while the user hasn't decided whether to restore `draft` or not.
+     *
+     * Drafts are not autosaved in the meantime so that the saved draft isn't overwritten before the user decides.
+     */
+    const [draftPending, setDraftPending] = createSignal(draft != undefined)
+
+    // Autosaves the answers every time they change. Answers that are still as prefilled are not worth a draft.
+    createEffect(() => {
+        const snapshot = values.map((v) => ({ questionId: v.questionId, value: v.value }))
+        if (options.drafts == false || draftPending() || submitted()) return
+        if (isDirty()) saveDraft(form, snapshot)
+        else discardDraft(form.id)
+    })
+
+    function restoreDraft() {
+        setValues(values.map((v) => {
+            const saved = draft?.values.find((d) => d.questionId == v.questionId)
+            return saved == undefined || isLocked(v.questionId) ? v : { ...v, value: saved.value }
+        }))
+        setDraftPending(false)
+    }
+
+    function dismissDraft() {
+        discardDraft(form.id)
+        setDraftPending(false)
+    }
+
+    /**
+     * Returns the stored value of a question.
+     * @param id ID of the question
+     */
+    const value = (id: string) => values.find((v) => v.questionId == id)?.value
+
+    /**
+     * Sets the value of a question, marks it as touched and clears its validation error.
+     *
+     * Locked questions keep their prefilled answer.
+     *
+     * @param id ID of the question
+     * @param value New value of the question
+     */
+    function setValue(id: string, value: string) {
+        if (isLocked(id)) return
+        setValues(values.map((v) => (
+            v.questionId === id ? { ...v, value: value } : v
+        )))
+        setTouched(id, true)
+        setErrors(id, undefined)
+    }
+
+    const isTouched = (id: string) => touched[id] == true
+
+    /**
+     * Sets the number of file uploads in progress for a question. Called by the component of the question.
+     *
+     * @param id ID of the question
+     * @param count Uploads that haven't finished yet
+     */
+    function setUploading(id: string, count: number) {
+        setUploads(id, count)
+    }
+
+    /**
+     * Returns `true` while files are being uploaded for a question. Without `id`, returns `true` if any visible
+     * question is uploading.
+     */
+    function isUploading(id?: string): boolean {
+        if (id != undefined) return (uploads[id] ?? 0) > 0
+        return visibleQuestions().some((q) => isUploading(q.id))
+    }
+
+    /**
+     * Returns `true` if the value of a question differs from its initial value. Without `id`, returns `true` if any
+     * question is dirty.
+     *
+     * @param id ID of the question
+     */
+    function isDirty(id?: string) {
+        if (id != undefined) {
+            const question = form.questions.find((q) => q.id == id)
+            return question != undefined && value(id) != initialValue(question)
+        }
+        return form.questions.some((q) => value(q.id) != initialValue(q))
+    }
+
+    /**
+     * Returns `true` if the question should be shown with the current answers.
+     * @see isQuestionVisible
+     */
+    const isVisible = (question: Question) => isQuestionVisible(question, form.questions, value)
+
+    /**
+     * Questions that are currently shown. Only these are validated and submitted.
+     */
+    const visibleQuestions = () => form.questions.filter(isVisible)
+
+    const pages = buildPages(form)
+
+    /**
+     * Pages that have at least one visible question. Pages whose questions are all hidden are skipped.
+     */
+    const visiblePages = () => {
+        const shown = pages.filter((p) => p.questions.some(isVisible))
+        return shown.length == 0 ? [pages[0]] : shown
+    }
+
+    /**
+     * Validates the answers to `questions` and replaces `errors` with the errors that were found.
+     *
+     * @param questions The questions to validate. Defaults to the visible questions.
+     * @returns The errors that were found, keyed by `questionId`. Empty if every answer is valid.
+     */
+    function validate(questions: Question[] = visibleQuestions()) {
+        const found = validateResponses(questions, values, i18n.messages(), i18n.locale())
+        questions.filter((q) => isUploading(q.id)).forEach((q) => found[q.id] = i18n.messages().uploadInProgress)
+        setErrors(reconcile(found))
+        return found
+    }
+
+    // Errors are stored as text, so the ones that are displayed are checked again in the new language.
+    createEffect(on(i18n.locale, () => {
+        const invalid = form.questions.filter((q) => errors[q.id] != undefined)
+        if (invalid.length > 0) validate(invalid)
+    }, { defer: true }))
+
+    /**
+     * Builds the `FormResponse` for the visible questions, with every value serialised for submission.
+     */
+    function response(): FormResponse {
+        const serialize = options.serialize ?? ((value: string, question: Question) =>
+            getQuestionRenderer(question.type)?.serialize?.(value, question) ?? value)
+
+        return {
+            formId: form.id,
+            questionResponses: visibleQuestions().map((q) => ({ questionId: q.id, value: serialize(value(q.id) ?? "", q) }))
+        }
+    }
+
+    /**
+     * Validates the visible answers and, if they are valid, submits them with `client`.
+     *
+     * The saved draft is discarded once the backend has recorded the response. Every attempt is sent with the same
+     * `submissionKey`, so submitting again after a failure doesn't record the response twice.
+     *
+     * Nothing is sent if the form has closed since it was opened, e.g. because `closesAt` has passed. `submitError` is
+     * then a `KMClosedFormError`, the same error the client throws when the backend rejects a closed form.
+     *
+     * If the backend rejects some answers with a `KMValidationError`, its `fieldErrors` replace `errors`.
+     *
+     * @returns `true` if the response was recorded. If not, see `errors` or `submitError`.
+     */
+    async function submit() {
+        if (submitting() || Object.keys(validate()).length > 0) return false
+
+        setSubmitError(undefined)
+        if (formStatus(form) != "open") {
+            setSubmitError(() => new KMClosedFormError("The form closed before the response was submitted"))
+            return false
+        }
+
+        setSubmitting(true)
+        try {
+            await client.submitResponse(response(), { idempotencyKey: submissionKey() })
+            discardDraft(form.id)
+            setSubmitted(true)
+            return true
+        } catch (e) {
+            // Answers the backend rejected get their reason shown under the question, like any other error.
+            if (e instanceof KMValidationError) {
+                const rejected = e.fieldErrors
+                setErrors(reconcile(Object.fromEntries(visibleQuestions().filter((q) => rejected[q.id] != undefined).map((q) => [q.id, rejected[q.id]]))))
+            }
+            setSubmitError(() => e)
+            return false
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    /**
+     * Clears every answer, error and touched flag, as if the form had just been opened. The next submission gets a
+     * new `submissionKey`.
+     */
+    function reset() {
+        setValues(reconcile(initialValues()))
+        setErrors(reconcile({}))
+        setTouched(reconcile({}))
+        setSubmitError(undefined)
+        setSubmitted(false)
+        setSubmissionKey(randomId())
+    }
+
+    return {
+        form,
+        values,
+        errors,
+        value,
+        setValue,
+        isTouched,
+        isLocked,
+        setUploading,
+        isUploading,
+        isDirty,
+        isVisible,
+        visibleQuestions,
+        pages,
+        visiblePages,
+        validate,
+        response,
+        submit,
+        submitting,
+        submitted,
+        submitError,
+        submissionKey,
+        reset,
+        draft,
+        draftPending,
+        restoreDraft,
+        dismissDraft
+    }
+}
@@ -0,0 +1,462 @@
+import { Accessor, createContext, useContext } from "solid-js"
+import { LocalisedText } from "../components/KMTypes"
+
+/**
+ * Every piece of text that the KM components display on their own, i.e. text that doesn't come from the form.
+ *
+ * Messages that include a value are functions of that value.
+ */
+export type Messages = {
+    /**
+     * Name of the language in that language, shown in the language switcher.
+     */
+    languageName: string,
+    languageSwitcherLabel: string,
+
+    errorScreen: string,
+    closedForm: string,
+    /**
+     * Shown before the contact e-mail address on the closed form screen.
+     */
+    closedFormContactBefore: string,
+    /**
+     * Shown after the contact e-mail address on the closed form screen.
+     */
+    closedFormContactAfter: string,
+    thankYou: string,
+    notOpenYet: string,
+    /**
+     * Shown on the screen of a form that hasn't opened yet, e.g. `"Opens on 1 May 2024, 10:00"`.
+     */
+    opensAt: (date: string) => string,
+    /**
+     * Accessible name of the countdown to the opening of a form.
+     */
+    opensIn: (countdown: string) => string,
+    /**
+     * Shown while filling out a form that closes soon, with the time left as a countdown.
+     */
+    closingSoon: (countdown: string) => string,
+    /**
+     * Shown when the form closed before the answers were submitted.
+     */
+    closedBeforeSubmit: string,
+    /**
+     * Shown when this device has already responded to a form, with the date of the response.
+     */
+    alreadyResponded: (date: string) => string,
+    submitAnother: string,
+
+    submit: string,
+    next: string,
+    back: string,
+    pageOf: (current: number, total: number) => string,
+    submitFailed: string,
+    /**
+     * Shown when the backend could not be reached or did not reply in time.
+     */
+    submitOffline: string,
+    /**
+     * Shown when the backend rejected some answers. The reasons are shown under the questions.
+     */
+    submitRejected: string,
+    /**
+     * Shown when the backend rejected the API key.
+     */
+    submitUnauthorized: string,
+    /**
+     * Announced to screen readers while the answers are being sent.
+     */
+    submitting: string,
+    /**
+     * Announced to screen readers when some answers failed validation.
+     */
+    invalidAnswers: (count: number) => string,
+    progressSpinner: string,
+
+    review: string,
+    reviewTitle: string,
+    reviewDescription: string,
+    backToReview: string,
+    edit: string,
+    /**
+     * Accessible name of the edit button of an answer on the review screen.
+     */
+    editAnswer: (prompt: string) => string,
+    notAnswered: string,
+    requiredNotAnswered: string,
+
+    draftFound: (savedAt: string) => string,
+    restoreDraft: string,
+    discardDraft: string,
+
+    required: string,
+    selectOption: string,
+    minSelections: (count: number) => string,
+    maxSelections: (count: number) => string,
+    minLength: (count: number) => string,
+    maxLength: (count: number) => string,
+    pattern: string,
+    number: string,
+    min: (min: number) => string,
+    max: (max: number) => string,
+    step: (lower: number, upper: number) => string,
+    date: string,
+    time: string,
+    earliest: (earliest: string) => string,
+    latest: (latest: string) => string,
+    scale: string,
+    uploadRequired: string,
+    maxFiles: (count: number) => string,
+
+    dropFiles: string,
+    browseFiles: string,
+    maxFileSize: (size: string) => string,
+    removeFile: string,
+    fileTypeNotAccepted: (name: string) => string,
+    fileTooLarge: (name: string, size: string) => string,
+    tooManyFiles: (name: string, count: number) => string,
+    uploadFailed: (name: string) => string,
+    /**
+     * Shown instead of uploading when `KMFormView` has no `restUploadUrl`.
+     */
+    uploadNotConfigured: (name: string) => string,
+    /**
+     * Shown when the user tries to continue while files are still uploading.
+     */
+    uploadInProgress: string,
+
+    unknownQuestionType: (type: string) => string,
+    /**
+     * Shown under a question whose prefilled answer can't be changed.
+     */
+    lockedAnswer: string,
+
+    /**
+     * Text of `KMFormBuilder`, which is shown to the people who write forms rather than to the ones who fill them out.
+     */
+    builderExport: string,
+    builderImport: string,
+    builderNewForm: string,
+    builderForm: string,
+    builderId: string,
+    builderName: string,
+    builderAccepting: string,
+    builderOpensAt: string,
+    builderClosesAt: string,
+    builderNewQuestionType: string,
+    builderAddQuestion: string,
+    /**
+     * Title of the editor of a question, with its position in the form starting from `1`.
+     */
+    builderQuestion: (position: number) => string,
+    builderMoveUp: string,
+    builderMoveDown: string,
+    builderDelete: string,
+    builderType: string,
+    builderPrompt: string,
+    builderDescription: string,
+    builderPlaceholder: string,
+    builderDefault: string,
+    builderRequired: string,
+    builderLockPrefilled: string,
+    builderOptions: string,
+    builderOptionTitle: string,
+    builderOptionSubtitle: string,
+    builderImageUrl: string,
+    builderImageAlt: string,
+    builderDeleteOption: string,
+    builderAddOption: string,
+}
+
+export const en: Messages = {
+    languageName: "English",
+    languageSwitcherLabel: "Language",
+
+    errorScreen: "Oops! We encountered an error. Might be on our side, might be on your side. Maybe try refreshing the screen!",
+    closedForm: "This form has been closed.",
+    closedFormContactBefore: "Please send an email at",
+    closedFormContactAfter: "if you think this is an error.",
+    thankYou: "Thank you for filling out that form! We'll get back to you as soon as possible!",
+    notOpenYet: "This form isn't open yet.",
+    opensAt: (date) => `It opens on ${date}.`,
+    opensIn: (countdown) => `Opens in ${countdown}`,
+    closingSoon: (countdown) => `This form closes in ${countdown}. Submit your answers before then.`,
+    closedBeforeSubmit: "This form closed before your answers were submitted, so they couldn't be saved.",
+    alreadyResponded: (date) => `You already responded to this form on ${date}.`,
+    submitAnother: "Submit another response",
+
+    submit: "Submit",
+    next: "Next",
+    back: "Back",
+    pageOf: (current, total) => `Page ${current} of ${total}`,
+    submitFailed: "We couldn't save your answers. Please press Submit to try again.",
+    submitOffline: "We couldn't reach the server. Please check your connection and press Submit to try again.",
+    submitRejected: "Some of your answers were not accepted. Please correct them and press Submit again.",
+    submitUnauthorized: "This form can't accept answers right now. Please contact the owner of the form.",
+    submitting: "Sending your answers…",
+    invalidAnswers: (count) => count == 1 ? "1 question needs your attention." : `${count} questions need your attention.`,
+    progressSpinner: "Progress spinner indicating that the page is loading",
+
+    review: "Review answers",
+    reviewTitle: "Review your answers",
+    reviewDescription: "Check your answers before you submit them. Nothing is sent until you press Submit.",
+    backToReview: "Back to review",
+    edit: "Edit",
+    editAnswer: (prompt) => `Edit the answer to "${prompt}"`,
+    notAnswered: "Not answered",
+    requiredNotAnswered: "Required, not answered",
+
+    draftFound: (savedAt) => `You have unfinished answers from ${savedAt}. Do you want to continue where you left off?`,
+    restoreDraft: "Restore",
+    discardDraft: "Start over",
+
+    required: "This question is required.",
+    selectOption: "Please select an option.",
+    minSelections: (count) => `Please select at least ${count} ${count == 1 ? "option" : "options"}.`,
+    maxSelections: (count) => `Please select at most ${count} ${count == 1 ? "option" : "options"}.`,
+    minLength: (count) => `Please write at least ${count} ${count == 1 ? "character" : "characters"}.`,
+    maxLength: (count) => `Please write at most ${count} ${count == 1 ? "character" : "characters"}.`,
+    pattern: "This answer is not in the expected format.",
+    number: "Please enter a number.",
+    min: (min) => `Please enter a number no smaller than ${min}.`,
+    max: (max) => `Please enter a number no larger than ${max}.`,
+    step: (lower, upper) => `Please enter a valid number. The closest ones are ${lower} and ${upper}.`,
+    date: "Please enter a valid date.",
+    time: "Please enter a valid time.",
+    earliest: (earliest) => `Please enter ${earliest} or later.`,
+    latest: (latest) => `Please enter ${latest} or earlier.`,
+    scale: "Please pick a point on the scale.",
+    uploadRequired: "Please upload a file.",
+    maxFiles: (count) => `Please upload at most ${count} ${count == 1 ? "file" : "files"}.`,
+
+    dropFiles: "Drop files here or",
+    browseFiles: "browse",
+    maxFileSize: (size) => `Up to ${size} per file`,
+    removeFile: "Remove",
+    fileTypeNotAccepted: (name) => `${name} is not an accepted file type.`,
+    fileTooLarge: (name, size) => `${name} is larger than ${size}.`,
+    tooManyFiles: (name, count) => `${name} was not added. You can upload at most ${count} ${count == 1 ? "file" : "files"}.`,
+    uploadFailed: (name) => `${name} could not be uploaded. Please try again.`,
+    uploadNotConfigured: (name) => `${name} could not be uploaded because this form doesn't accept files.`,
+    uploadInProgress: "Please wait until your files have finished uploading.",
+
+    unknownQuestionType: (type) => `This question can't be displayed because its type "${type}" is not supported.`,
+    lockedAnswer: "This answer has been filled in for you and can't be changed.",
+
+    builderExport: "Export JSON",
+    builderImport: "Import JSON",
+    builderNewForm: "New form",
+    builderForm: "Form",
+    builderId: "ID",
+    builderName: "Name",
+    builderAccepting: "Accepting responses",
+    builderOpensAt: "Opens at (ISO 8601)",
+    builderClosesAt: "Closes at (ISO 8601)",
+    builderNewQuestionType: "Type of the new question",
+    builderAddQuestion: "Add question",
+    builderQuestion: (position) => `Question ${position}`,
+    builderMoveUp: "Move up",
+    builderMoveDown: "Move down",
+    builderDelete: "Delete",
+    builderType: "Type",
+    builderPrompt: "Prompt",
+    builderDescription: "Description",
+    builderPlaceholder: "Placeholder",
+    builderDefault: "Default answer",
+    builderRequired: "Required",
+    builderLockPrefilled: "Lock prefilled answer",
+    builderOptions: "Options",
+    builderOptionTitle: "Title",
+    builderOptionSubtitle: "Subtitle",
+    builderImageUrl: "Image URL",
+    builderImageAlt: "Image description",
+    builderDeleteOption: "Delete option",
+    builderAddOption: "Add option",
+}
+
+export const sv: Messages = {
+    languageName: "Svenska",
+    languageSwitcherLabel: "Språk",
+
+    errorScreen: "Hoppsan! Något gick fel. Det kan vara hos oss eller hos dig. Testa att ladda om sidan!",
+    closedForm: "Det här formuläret har stängts.",
+    closedFormContactBefore: "Skicka ett mejl till",
+    closedFormContactAfter: "om du tror att det här är ett misstag.",
+    thankYou: "Tack för att du fyllde i formuläret! Vi hör av oss så snart som möjligt!",
+    notOpenYet: "Det här formuläret har inte öppnat än.",
+    opensAt: (date) => `Det öppnar ${date}.`,
+    opensIn: (countdown) => `Öppnar om ${countdown}`,
+    closingSoon: (countdown) => `Det här formuläret stänger om ${countdown}. Skicka dina svar innan dess.`,
+    closedBeforeSubmit: "Det här formuläret stängde innan dina svar skickades, så de kunde inte sparas.",
+    alreadyResponded: (date) => `Du svarade redan på det här formuläret ${date}.`,
+    submitAnother: "Skicka ett svar till",
+
+    submit: "Skicka",
+    next: "Nästa",
+    back: "Tillbaka",
+    pageOf: (current, total) => `Sida ${current} av ${total}`,
+    submitFailed: "Vi kunde inte spara dina svar. Tryck på Skicka för att försöka igen.",
+    submitOffline: "Vi kunde inte nå servern. Kontrollera din anslutning och tryck på Skicka för att försöka igen.",
+    submitRejected: "Några av dina svar godkändes inte. Rätta dem och tryck på Skicka igen.",
+    submitUnauthorized: "Det här formuläret kan inte ta emot svar just nu. Kontakta den som äger formuläret.",
+    submitting: "Skickar dina svar…",
+    invalidAnswers: (count) => count == 1 ? "1 fråga behöver din uppmärksamhet." : `${count} frågor behöver din uppmärksamhet.`,
+    progressSpinner: "Laddningsindikator som visar att sidan laddar",
+
+    review: "Granska svar",
+    reviewTitle: "Granska dina svar",
+    reviewDescription: "Kontrollera dina svar innan du skickar dem. Inget skickas förrän du trycker på Skicka.",
+    backToReview: "Tillbaka till granskningen",
+    edit: "Ändra",
+    editAnswer: (prompt) => `Ändra svaret på "${prompt}"`,
+    notAnswered: "Inte besvarad",
+    requiredNotAnswered: "Obligatorisk, inte besvarad",
+
+    draftFound: (savedAt) => `Du har ofärdiga svar från ${savedAt}. Vill du fortsätta där du slutade?`,
+    restoreDraft: "Återställ",
+    discardDraft: "Börja om",
+
+    required: "Den här frågan måste besvaras.",
+    selectOption: "Välj ett alternativ.",
+    minSelections: (count) => `Välj minst ${count} alternativ.`,
+    maxSelections: (count) => `Välj högst ${count} alternativ.`,
+    minLength: (count) => `Skriv minst ${count} tecken.`,
+    maxLength: (count) => `Skriv högst ${count} tecken.`,
+    pattern: "Svaret har inte det förväntade formatet.",
+    number: "Ange ett tal.",
+    min: (min) => `Ange ett tal som inte är mindre än ${min}.`,
+    max: (max) => `Ange ett tal som inte är större än ${max}.`,
+    step: (lower, upper) => `Ange ett giltigt tal. De närmaste är ${lower} och ${upper}.`,
+    date: "Ange ett giltigt datum.",
+    time: "Ange en giltig tid.",
+    earliest: (earliest) => `Ange ${earliest} eller senare.`,
+    latest: (latest) => `Ange ${latest} eller tidigare.`,
+    scale: "Välj ett värde på skalan.",
+    uploadRequired: "Ladda upp en fil.",
+    maxFiles: (count) => `Ladda upp högst ${count} ${count == 1 ? "fil" : "filer"}.`,
+
+    dropFiles: "Släpp filer här eller",
+    browseFiles: "bläddra",
+    maxFileSize: (size) => `Högst ${size} per fil`,
+    removeFile: "Ta bort",
+    fileTypeNotAccepted: (name) => `${name} har en filtyp som inte accepteras.`,
+    fileTooLarge: (name, size) => `${name} är större än ${size}.`,
+    tooManyFiles: (name, count) => `${name} lades inte till. Du kan ladda upp högst ${count} ${count == 1 ? "fil" : "filer"}.`,
+    uploadFailed: (name) => `${name} kunde inte laddas upp. Försök igen.`,
+    uploadNotConfigured: (name) => `${name} kunde inte laddas upp eftersom det här formuläret inte tar emot filer.`,
+    uploadInProgress: "Vänta tills dina filer har laddats upp.",
+
+    unknownQuestionType: (type) => `Den här frågan kan inte visas eftersom frågetypen "${type}" inte stöds.`,
+    lockedAnswer: "Det här svaret har fyllts i åt dig och kan inte ändras.",
+
+    builderExport: "Exportera JSON",
+    builderImport: "Importera JSON",
+    builderNewForm: "Nytt formulär",
+    builderForm: "Formulär",
+    builderId: "ID",
+    builderName: "Namn",
+    builderAccepting: "Tar emot svar",
+    builderOpensAt: "Öppnar (ISO 8601)",
+    builderClosesAt: "Stänger (ISO 8601)",
+    builderNewQuestionType: "Typ av ny fråga",
+    builderAddQuestion: "Lägg till fråga",
+    builderQuestion: (position) => `Fråga ${position}`,
+    builderMoveUp: "Flytta upp",
+    builderMoveDown: "Flytta ned",
+    builderDelete: "Ta bort",
+    builderType: "Typ",
+    builderPrompt: "Frågetext",
+    builderDescription: "Beskrivning",
+    builderPlaceholder: "Platshållare",
+    builderDefault: "Förvalt svar",
+    builderRequired: "Obligatorisk",
+    builderLockPrefilled: "Lås förifyllt svar",
+    builderOptions: "Alternativ",
+    builderOptionTitle: "Titel",
+    builderOptionSubtitle: "Undertitel",
+    builderImageUrl: "Bildens URL",
+    builderImageAlt: "Bildbeskrivning",
+    builderDeleteOption: "Ta bort alternativ",
+    builderAddOption: "Lägg till alternativ",
+}
+
+/**
+ * Message catalogues that ship with the KM components, keyed by locale.
+ */
+export const defaultCatalogues: Record<string, Messages> = { en: en, sv: sv }
+
+/**
+ * Builds the catalogues used by a form from the built-in ones and the ones passed to `KMFormView`.
+ *
+ * Replacement catalogues only need to contain the messages they change. Messages missing from a catalogue for a new
+ * locale fall back to English.
+ *
+ * @param overrides Catalogues keyed by locale
+ */
+export function mergeCatalogues(overrides?: Record<string, Partial<Messages>>) {
+    const catalogues = { ...defaultCatalogues }
+    for (const [locale, messages] of Object.entries(overrides ?? {})) {
+        catalogues[locale] = { ...(catalogues[locale] ?? en), ...messages }
+    }
+    return catalogues
+}
+
+/**
+ * Picks the locale that best matches the browser's preferred languages.
+ *
+ * Only the language part of a locale is compared, so `sv-FI` in the browser matches the `sv` catalogue.
+ *
+ * @param available Locales that have a catalogue
+ * @param fallback Used if none of the browser's languages are available
+ */
+export function detectLocale(available: string[], fallback: string = "en") {
+    const preferred = typeof navigator == "undefined" ? [] : navigator.languages ?? [navigator.language]
+    for (const language of preferred) {
+        const match = available.find((locale) => locale.toLowerCase() == language.toLowerCase()) ??
+            available.find((locale) => locale.split("-")[0].toLowerCase() == language.split("-")[0].toLowerCase())
+        if (match != undefined) return match
+    }
+    return available.includes(fallback) ? fallback : available[0]
+}
+
+/**
+ * Picks the translation of a text for a locale.
+ *
+ * Falls back to English and then to the first available translation.
+ *
+ * @param text
+ * @param locale
+ */
+export function localise(text: LocalisedText, locale: string): string
+export function localise(text: LocalisedText | undefined, locale: string): string | undefined
+export function localise(text: LocalisedText | undefined, locale: string) {
+    if (text == undefined || typeof text == "string") return text
+    return text[locale] ?? text[locale.split("-")[0]] ?? text["en"] ?? Object.values(text)[0] ?? ""
+}
+
+/**
+ * Current locale and its messages, provided by `KMFormView` to every component inside it.
+ */
+export type I18n = {
+    locale: Accessor<string>,
+    messages: Accessor<Messages>
+}
+
+export const I18nContext = createContext<I18n>({ locale: () => "en", messages: () => en })
+
+/**
+ * Returns the current locale and messages, along with a shorthand for `localise` in that locale.
+ *
+ * Components rendered outside of `KMFormView` get the English messages.
+ */
+export function useI18n() {
+    const i18n = useContext(I18nContext)
+    return {
+        ...i18n,
+        text: ((text: LocalisedText | undefined) => localise(text, i18n.locale())) as {
+            (text: LocalisedText): string,
+            (text: LocalisedText | undefined): string | undefined
+        }
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * A random ID, e.g. for idempotency keys.
+ *
+ * `crypto.randomUUID` is only available on secure origins, so other origins get a random hex string instead.
+ */
+export function randomId() {
+    if (typeof crypto.randomUUID == "function") return crypto.randomUUID()
+    return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,36 @@
+import { FormSection, Question, TypeForm } from "../components/KMTypes"
+
+/**
+ * A page of questions as displayed by `FormView`.
+ *
+ * `section` is `undefined` for forms that don't have any sections.
+ */
+export type FormPage = {
+    section?: FormSection,
+    questions: Question[]
+}
+
+/**
+ * Splits the questions of a form into pages according to `TypeForm.sections`.
+ *
+ * Questions that aren't listed in any section are added to the last page. A form without sections has a single page
+ * with every question.
+ *
+ * @param form
+ * @returns At least one page.
+ * @see FormSection
+ */
+export function buildPages(form: TypeForm): FormPage[] {
+    const sections = form.sections ?? []
+    if (sections.length == 0) return [{ questions: form.questions }]
+
+    const pages: FormPage[] = sections.map((section) => ({
+        section: section,
+        questions: form.questions.filter((q) => section.questionIds.includes(q.id))
+    }))
+
+    const unassigned = form.questions.filter((q) => !sections.some((s) => s.questionIds.includes(q.id)))
+    pages[pages.length - 1].questions.push(...unassigned)
+
+    return pages
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { QuestionType } from "../components/KMTypes"
+import { prefillFromQuery, prefillValue } from "./prefill"
+import { options, question, typeForm } from "./test-fixtures"
+
+const colours = (type: QuestionType, id = "q") => question({ id: id, type: type, options: options("red", "green", "blue") })
+
+describe("prefillValue", () => {
+    it("keeps text answers as they are", () => {
+        expect(prefillValue(colours(QuestionType.short), "Ada, Countess")).toBe("Ada, Countess")
+        expect(prefillValue(colours(QuestionType.date), "2024-05-01")).toBe("2024-05-01")
+    })
+
+    it("returns an empty string when there is nothing to prefill", () => {
+        expect(prefillValue(colours(QuestionType.short), undefined)).toBe("")
+        expect(prefillValue(colours(QuestionType.short), "")).toBe("")
+    })
+
+    it("never prefills file uploads", () => {
+        expect(prefillValue(colours(QuestionType.fileUpload), "[{\"id\":\"file\"}]")).toBe("")
+    })
+
+    it("accepts option IDs as a comma-separated list or as JSON", () => {
+        expect(prefillValue(colours(QuestionType.multi), "red, blue")).toBe("[\"red\",\"blue\"]")
+        expect(prefillValue(colours(QuestionType.multi), "[\"green\",\"red\"]")).toBe("[\"green\",\"red\"]")
+    })
+
+    it("drops unknown option IDs", () => {
+        expect(prefillValue(colours(QuestionType.multi), "red,purple")).toBe("[\"red\"]")
+        expect(prefillValue(colours(QuestionType.multi), "purple")).toBe("")
+    })
+
+    it("keeps only the first option of a single-choice question", () => {
+        expect(prefillValue(colours(QuestionType.single), "blue,red")).toBe("[\"blue\"]")
+        expect(prefillValue(colours(QuestionType.dropdown), "[\"green\",\"blue\"]")).toBe("[\"green\"]")
+    })
+
+    it("reads malformed JSON as a comma-separated list", () => {
+        expect(prefillValue(colours(QuestionType.multi), "[red")).toBe("")
+    })
+})
+
+describe("prefillFromQuery", () => {
+    const form = typeForm({ questions: [colours(QuestionType.short, "name"), colours(QuestionType.multi, "colours")] })
+
+    it("reads the parameters named after questions", () => {
+        expect(prefillFromQuery(form, "?name=Ada&utm_source=mail")).toEqual({ name: "Ada" })
+    })
+
+    it("joins repeated parameters", () => {
+        expect(prefillFromQuery(form, "?colours=red&colours=blue")).toEqual({ colours: "red,blue" })
+    })
+})
@@ -0,0 +1,57 @@
+import { Question, QuestionType, TypeForm } from "../components/KMTypes"
+import { serializeSelection } from "./selection"
+import { isChoiceQuestion } from "./validation"
+
+/**
+ * Converts a prefilled answer into the value stored for `question`.
+ *
+ * Choice questions accept option IDs, either as a comma-separated list (`"red,blue"`) or in the stored JSON format.
+ * Unknown option IDs are dropped and single-choice questions keep only the first option. File uploads can't be
+ * prefilled. Other answers are used as they are, in the same format the question stores, e.g. `2024-05-01` for a date.
+ *
+ * @param question
+ * @param raw The prefilled answer, e.g. `Question.default` or a URL query parameter
+ * @returns The value to store, or an empty string if there is nothing to prefill.
+ * @since 0.0.0
+ */
+export function prefillValue(question: Question, raw: string | undefined): string {
+    if (raw == undefined || raw == "" || question.type == QuestionType.fileUpload) return ""
+    if (!isChoiceQuestion(question)) return raw
+
+    let ids: string[]
+    try {
+        const parsed = raw.trim().startsWith("[") ? JSON.parse(raw) : undefined
+        ids = Array.isArray(parsed) ? parsed.map((id) => String(id)) : raw.split(",")
+    } catch (e) {
+        ids = raw.split(",")
+    }
+
+    const known = ids.map((id) => id.trim()).filter((id) => question.options.some((o) => o.id == id))
+    const multiple = question.type == QuestionType.multi || question.type == QuestionType.multiWithImage
+    return serializeSelection(multiple ? known : known.slice(0, 1))
+}
+
+/**
+ * Reads prefilled answers from URL query parameters whose names are question IDs.
+ *
+ * Repeat a parameter to select several options of a multiple-choice question, e.g. `?colours=red&colours=blue`.
+ * Parameters that aren't question IDs are ignored.
+ *
+ * @example
+ * // https://example.com/signup?name=Ada&team=blue
+ * prefillFromQuery(form) // { name: "Ada", team: "blue" }
+ *
+ * @param form
+ * @param search The query string. Defaults to the query of the current page.
+ * @returns Answers keyed by question ID, as expected by the `prefill` of `KMFormView` and `createKMForm`
+ * @since 0.0.0
+ */
+export function prefillFromQuery(form: TypeForm, search: string = location.search): Record<string, string> {
+    const query = new URLSearchParams(search)
+    const prefill: Record<string, string> = {}
+    for (const question of form.questions) {
+        const values = query.getAll(question.id)
+        if (values.length > 0) prefill[question.id] = values.join(",")
+    }
+    return prefill
+}
@@ -0,0 +1,90 @@
+import { Component } from "solid-js"
+import { Question } from "../components/KMTypes"
+import { Messages } from "./i18n"
+
+/**
+ * Props that `KMFormView` passes to the component of every question renderer.
+ *
+ * - `question` - the question to display.
+ * - `value` - current `QuestionResponse.value` of the question. An empty string if it hasn't been answered.
+ * - `error` - validation error to display, if any.
+ * - `storeUpdater` - call with `question.id` and the new value whenever the answer changes.
+ * - `uploadingUpdater` - call with `question.id` and the number of uploads in progress whenever it changes. The answer
+ *   fails validation while it isn't `0`, so the form can't be submitted without the files.
+ * - `uploadUrl` and `apiKey` - the upload endpoint and key `KMFormView` was configured with.
+ * - `locked` - `true` if the answer was prefilled and can't be changed. The component is rendered inside a disabled
+ *   `fieldset`, which disables native inputs and buttons. Components that handle input in other ways should check this.
+ */
+export type QuestionRendererProps = {
+    question: Question,
+    value: string,
+    error?: string,
+    storeUpdater: (id: string, value: string) => void,
+    uploadingUpdater: (id: string, count: number) => void,
+    uploadUrl?: string,
+    apiKey: string,
+    locked?: boolean
+}
+
+/**
+ * Everything `KMFormView` needs to know to support a question type.
+ */
+export type QuestionRenderer = {
+    /**
+     * Displays the question. Use `KMPromptHeader` and `KMPromptError` to match the look of the built-in questions.
+     */
+    component: Component<QuestionRendererProps>,
+    /**
+     * Converts the value kept by the component into the value sent in `QuestionResponse.value`.
+     *
+     * Values are sent as they are if this is not set.
+     */
+    serialize?: (value: string, question: Question) => string,
+    /**
+     * Checks a non-empty answer. `question.required` is checked by `KMFormView` before this is called.
+     *
+     * @returns The error message to show, or `undefined` if the answer is valid.
+     */
+    validate?: (question: Question, value: string, messages: Messages, locale: string) => string | undefined,
+    /**
+     * Converts a non-empty answer into the text shown on the review screen.
+     *
+     * Values are shown as they are if this is not set.
+     */
+    format?: (value: string, question: Question, locale: string) => string
+}
+
+const renderers = new Map<string, QuestionRenderer>()
+
+/**
+ * Adds support for a question type to every `KMFormView`, or replaces the renderer of a built-in type.
+ *
+ * Call this before the form is displayed, e.g. when the module that defines the renderer is imported.
+ *
+ * @param type Value of `Question.type` that the renderer is used for
+ * @param renderer
+ * @example registerQuestionType("Signature", { component: SignaturePromptView, validate: checkSignature })
+ * @since 0.0.0
+ */
+export function registerQuestionType(type: string, renderer: QuestionRenderer) {
+    renderers.set(type, renderer)
+}
+
+/**
+ * Removes a renderer that was added with `registerQuestionType`.
+ * @param type
+ */
+export function unregisterQuestionType(type: string) {
+    renderers.delete(type)
+}
+
+/**
+ * Returns the renderer registered for a question type, if any.
+ *
+ * Built-in types only have a renderer here if it has been replaced with `registerQuestionType`.
+ *
+ * @param type `Question.type`
+ */
+export function getQuestionRenderer(type: string): QuestionRenderer | undefined {
+    return renderers.get(type)
+}
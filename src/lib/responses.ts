@@ -0,0 +1,32 @@
+const respondedKey = (formId: string) => `kmform-responded:${formId}`
+
+/**
+ * Returns when this device last submitted a response to a form.
+ *
+ * Used by the "one response per device" mode of `KMFormView`. This is kept in `localStorage`, so it only stops
+ * accidental repeat responses, not users who clear their storage or switch browsers.
+ *
+ * @param formId `TypeForm.id`
+ * @returns An ISO timestamp, or `undefined` if no response has been recorded on this device.
+ */
+export function respondedAt(formId: string): string | undefined {
+    try {
+        return localStorage.getItem(respondedKey(formId)) ?? undefined
+    } catch (e) {
+        // Without storage there is no record of earlier responses.
+    }
+    return undefined
+}
+
+/**
+ * Remembers that this device has submitted a response to a form.
+ *
+ * @param formId `TypeForm.id`
+ */
+export function markResponded(formId: string) {
+    try {
+        localStorage.setItem(respondedKey(formId), new Date().toISOString())
+    } catch (e) {
+        // Storage may be full or disabled, in which case the device can simply respond again.
+    }
+}
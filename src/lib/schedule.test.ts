@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { formatCountdown, formStatus, timeUntil } from "./schedule"
+import { typeForm } from "./test-fixtures"
+
+const now = Date.parse("2024-05-01T12:00:00Z")
+
+describe("formStatus", () => {
+    it("is open without a schedule", () => {
+        expect(formStatus(typeForm({}), now)).toBe("open")
+    })
+
+    it("is closed when the form no longer accepts responses, whatever the schedule", () => {
+        expect(formStatus(typeForm({ stillAccepting: false }), now)).toBe("closed")
+        expect(formStatus(typeForm({ stillAccepting: false, opensAt: "2024-06-01T00:00:00Z" }), now)).toBe("closed")
+    })
+
+    it("is upcoming until opensAt", () => {
+        expect(formStatus(typeForm({ opensAt: "2024-05-01T12:00:01Z" }), now)).toBe("upcoming")
+        expect(formStatus(typeForm({ opensAt: "2024-05-01T12:00:00Z" }), now)).toBe("open")
+    })
+
+    it("is closed from closesAt on", () => {
+        expect(formStatus(typeForm({ closesAt: "2024-05-01T12:00:01Z" }), now)).toBe("open")
+        expect(formStatus(typeForm({ closesAt: "2024-05-01T12:00:00Z" }), now)).toBe("closed")
+    })
+})
+
+describe("timeUntil", () => {
+    it("never returns less than 0", () => {
+        expect(timeUntil("2024-05-01T12:00:05Z", now)).toBe(5000)
+        expect(timeUntil("2024-05-01T11:00:00Z", now)).toBe(0)
+        expect(timeUntil(undefined, now)).toBeUndefined()
+    })
+})
+
+describe("formatCountdown", () => {
+    it("shows minutes and seconds under an hour", () => {
+        expect(formatCountdown(0)).toBe("00:00")
+        expect(formatCountdown(65_000)).toBe("01:05")
+    })
+
+    it("rounds partial seconds up, so that 00:00 is only shown once the time is up", () => {
+        expect(formatCountdown(1)).toBe("00:01")
+        expect(formatCountdown(59_001)).toBe("01:00")
+    })
+
+    it("adds hours and days when needed", () => {
+        expect(formatCountdown(3_600_000)).toBe("01:00:00")
+        expect(formatCountdown(((2 * 24 + 3) * 3600 + 4 * 60 + 5) * 1000)).toBe("2d 03:04:05")
+    })
+})
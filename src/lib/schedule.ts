@@ -0,0 +1,67 @@
+import { Accessor, createSignal, onCleanup } from "solid-js"
+import { TypeForm } from "../components/KMTypes"
+
+/**
+ * Whether a form accepts responses at a given time.
+ *
+ * - `upcoming` - `opensAt` is still in the future.
+ * - `open` - the form accepts responses.
+ * - `closed` - `stillAccepting` is `false` or `closesAt` has passed.
+ */
+export type FormStatus = "upcoming" | "open" | "closed"
+
+/**
+ * Returns whether `form` accepts responses at `now`.
+ *
+ * @param form
+ * @param now Time in milliseconds since the epoch. Defaults to the current time.
+ * @since 0.0.0
+ */
+export function formStatus(form: TypeForm, now: number = Date.now()): FormStatus {
+    if (!form.stillAccepting) return "closed"
+    if (form.closesAt != undefined && now >= Date.parse(form.closesAt)) return "closed"
+    if (form.opensAt != undefined && now < Date.parse(form.opensAt)) return "upcoming"
+    return "open"
+}
+
+/**
+ * Milliseconds left until `date`, never less than `0`. `undefined` if `date` is `undefined`.
+ *
+ * @param date An ISO 8601 date, e.g. `TypeForm.closesAt`
+ * @param now Time in milliseconds since the epoch
+ */
+export function timeUntil(date: string | undefined, now: number) {
+    if (date == undefined) return undefined
+    return Math.max(0, Date.parse(date) - now)
+}
+
+/**
+ * Formats a duration as a countdown, e.g. `2d 03:04:05`, `03:04:05` or `04:05`.
+ *
+ * @param ms
+ */
+export function formatCountdown(ms: number) {
+    const seconds = Math.ceil(ms / 1000)
+    const days = Math.floor(seconds / 86400)
+    const hours = Math.floor(seconds / 3600) % 24
+    const pad = (n: number) => n.toString().padStart(2, "0")
+    const clock = `${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`
+
+    if (days > 0) return `${days}d ${pad(hours)}:${clock}`
+    if (hours > 0) return `${pad(hours)}:${clock}`
+    return clock
+}
+
+/**
+ * The current time in milliseconds since the epoch, updated every `interval` milliseconds.
+ *
+ * Must be called inside a component or another reactive owner, which stops the updates when it is disposed.
+ *
+ * @param interval
+ */
+export function createNow(interval: number = 1000): Accessor<number> {
+    const [now, setNow] = createSignal(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), interval)
+    onCleanup(() => clearInterval(timer))
+    return now
+}
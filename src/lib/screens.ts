@@ -0,0 +1,96 @@
+import { FormResponse, TypeForm } from "../components/KMTypes"
+
+/**
+ * How `KMFormView` sizes its screens.
+ *
+ * - `fullscreen` - the loading, error, closed and success screens cover the viewport. Meant for pages that only show
+ *   the form.
+ * - `contained` - every screen fills the element the form is placed in instead, e.g. a card or a dialog.
+ */
+export type KMLayout = "fullscreen" | "contained"
+
+/**
+ * Props passed to the `loadingScreen` of `KMFormView`.
+ */
+export type KMLoadingScreenProps = {
+    layout: KMLayout
+}
+
+/**
+ * Props passed to the `errorScreen` of `KMFormView`.
+ *
+ * - `error` - the error that prevented the form from loading, usually a `KMApiError` or `KMFormSchemaError`.
+ */
+export type KMErrorScreenProps = {
+    error: unknown,
+    layout: KMLayout
+}
+
+/**
+ * Props passed to the `closedScreen` of `KMFormView`.
+ *
+ * - `form` - the form, which no longer accepts responses.
+ * - `contactEmail` - the `contactEmail` `KMFormView` was configured with.
+ */
+export type KMClosedScreenProps = {
+    form: TypeForm,
+    contactEmail?: string,
+    layout: KMLayout
+}
+
+/**
+ * Props passed to the `upcomingScreen` of `KMFormView`, shown until `TypeForm.opensAt`.
+ *
+ * - `form` - the form, which doesn't accept responses yet.
+ * - `remaining` - milliseconds left until the form opens. Updated every second.
+ *
+ * The form is displayed as soon as it opens, without reloading the page.
+ */
+export type KMUpcomingScreenProps = {
+    form: TypeForm,
+    remaining: number,
+    layout: KMLayout
+}
+
+/**
+ * Props passed to the `respondedScreen` of `KMFormView`, shown in the "one response per device" mode when this device
+ * has already responded.
+ *
+ * - `form` - the form that was answered.
+ * - `respondedAt` - ISO timestamp of the last response from this device.
+ * - `submitAnother` - displays the form again. Only set if `KMFormView` allows another response.
+ */
+export type KMRespondedScreenProps = {
+    form: TypeForm,
+    respondedAt: string,
+    submitAnother?: () => void,
+    layout: KMLayout
+}
+
+/**
+ * Props passed to the `successScreen` of `KMFormView`.
+ *
+ * - `form` - the form that was answered.
+ * - `response` - the `FormResponse` the backend recorded.
+ */
+export type KMSuccessScreenProps = {
+    form: TypeForm,
+    response: FormResponse,
+    layout: KMLayout
+}
+
+/**
+ * Props passed to the `formHeader` of `KMFormView`, which replaces the title above the questions.
+ */
+export type KMFormHeaderProps = {
+    form: TypeForm
+}
+
+/**
+ * Tailwind classes that size a full-page screen, such as the loading screen, for `layout`.
+ *
+ * @param layout
+ */
+export function screenClass(layout: KMLayout) {
+    return layout == "contained" ? "w-full h-full min-h-64" : "w-screen h-screen"
+}
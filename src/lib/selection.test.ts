@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { parseSelection, serializeSelection, toggleSelection } from "./selection"
+
+describe("parseSelection", () => {
+    it("reads a JSON array of option IDs", () => {
+        expect(parseSelection("[\"2\",\"12\"]")).toEqual(["2", "12"])
+        expect(parseSelection("[3, 1]")).toEqual(["3", "1"])
+    })
+
+    it("returns nothing for an empty value", () => {
+        expect(parseSelection("")).toEqual([])
+        expect(parseSelection("  ")).toEqual([])
+    })
+
+    it("reads the legacy format as single-digit option IDs", () => {
+        expect(parseSelection("0123")).toEqual(["0", "1", "2", "3"])
+        expect(parseSelection("31")).toEqual(["3", "1"])
+    })
+
+    it("reads a value that only looks like JSON in the legacy format", () => {
+        expect(parseSelection("[1")).toEqual(["[", "1"])
+    })
+
+    it("drops duplicates", () => {
+        expect(parseSelection("[\"a\",\"b\",\"a\"]")).toEqual(["a", "b"])
+        expect(parseSelection("1121")).toEqual(["1", "2"])
+    })
+})
+
+describe("serializeSelection", () => {
+    it("writes a JSON array that parseSelection reads back", () => {
+        expect(serializeSelection(["10", "2"])).toBe("[\"10\",\"2\"]")
+        expect(parseSelection(serializeSelection(["10", "2"]))).toEqual(["10", "2"])
+    })
+
+    it("writes an empty selection as an empty string", () => {
+        expect(serializeSelection([])).toBe("")
+    })
+})
+
+describe("toggleSelection", () => {
+    it("replaces the selection in single-choice mode", () => {
+        expect(toggleSelection(["a"], "b", false)).toEqual(["b"])
+        expect(toggleSelection(["a"], "a", false)).toEqual([])
+    })
+
+    it("adds and removes options in multi-choice mode", () => {
+        expect(toggleSelection(["a"], "b", true)).toEqual(["a", "b"])
+        expect(toggleSelection(["a", "b"], "a", true)).toEqual(["b"])
+    })
+})
@@ -0,0 +1,60 @@
+/**
+ * Reads the option IDs stored in a choice question's `QuestionResponse.value`.
+ *
+ * Selections are stored as a JSON array of option IDs in the order they were selected, e.g. `'["2","12"]'`. An empty
+ * selection is stored as an empty string.
+ *
+ * Older responses stored single-digit option IDs concatenated into one string, e.g. `'0123'` for options `0` to `3`.
+ * Any value that isn't a JSON array is read in that format.
+ *
+ * @param value `QuestionResponse.value` of a choice question
+ * @returns The selected option IDs in the order they were selected, without duplicates
+ * @see serializeSelection
+ * @see KMChoicePromptView
+ */
+export function parseSelection(value: string): string[] {
+    if (value.trim() == "") return []
+
+    if (value.trim().startsWith("[")) {
+        try {
+            const parsed = JSON.parse(value)
+            if (Array.isArray(parsed)) return unique(parsed.map((id) => String(id)))
+        } catch (e) {
+            // Not a JSON array after all. Fall through to the legacy format.
+        }
+    }
+
+    return unique(value.split(""))
+}
+
+/**
+ * Writes selected option IDs into the format stored in `QuestionResponse.value`.
+ *
+ * @param selected Selected option IDs in the order they were selected
+ * @returns A JSON array of the unique option IDs, or an empty string if nothing is selected.
+ * @see parseSelection
+ */
+export function serializeSelection(selected: string[]): string {
+    return selected.length == 0 ? "" : JSON.stringify(unique(selected))
+}
+
+/**
+ * Selects or deselects an option.
+ *
+ * In single-choice mode, selecting an option replaces the current selection and selecting the already selected option
+ * clears the selection. In multi-choice mode, newly selected options are added to the end of the selection.
+ *
+ * @param selected Currently selected option IDs
+ * @param optionId ID of the option that was clicked
+ * @param multipleChoiceMode `true` if more than one option can be selected
+ * @returns The new selection
+ */
+export function toggleSelection(selected: string[], optionId: string, multipleChoiceMode: boolean): string[] {
+    if (!multipleChoiceMode) return selected.length == 1 && selected[0] == optionId ? [] : [optionId]
+    if (selected.includes(optionId)) return selected.filter((id) => id != optionId)
+    return [...selected, optionId]
+}
+
+function unique(ids: string[]) {
+    return ids.filter((id, i) => ids.indexOf(id) == i)
+}
@@ -0,0 +1,26 @@
+import { Option, Question, QuestionType, TypeForm } from "../components/KMTypes"
+
+/**
+ * Builds a question of the form `f`: an optional short answer with the ID `q`, unless `fields` says otherwise.
+ *
+ * Only used by the tests.
+ */
+export function question(fields: Partial<Question> = {}): Question {
+    return { id: "q", formId: "f", prompt: "Question", type: QuestionType.short, required: false, options: [], ...fields }
+}
+
+/**
+ * Builds one option per ID, titled with the ID.
+ */
+export function options(...ids: string[]): Option[] {
+    return ids.map((id) => ({ id: id, title: id, subtitle: "" }))
+}
+
+/**
+ * Builds the form `f`, which accepts responses and has no questions or schedule unless `fields` says otherwise.
+ *
+ * Only used by the tests.
+ */
+export function typeForm(fields: Partial<TypeForm> = {}): TypeForm {
+    return { id: "f", name: "Form", createdAt: "2024-01-01T00:00:00Z", stillAccepting: true, questions: [], ...fields }
+}
@@ -0,0 +1,181 @@
+import { JSX } from "solid-js"
+
+/**
+ * Design tokens used by every KM component.
+ *
+ * The tokens are applied as CSS variables (`--km-*`) on the root element of `KMFormView` and read through the `km`
+ * colours, radius, spacing and font family in `tailwind.config.js`, e.g. `border-km-border` or `rounded-km`.
+ *
+ * @see themeStyle
+ */
+export type KMTheme = {
+    colors: {
+        /**
+         * Page background.
+         */
+        background: string,
+        /**
+         * Body text.
+         */
+        text: string,
+        /**
+         * Secondary text such as option subtitles and hints.
+         */
+        muted: string,
+        /**
+         * Form title.
+         */
+        title: string,
+        /**
+         * Form title while hovered.
+         */
+        titleHover: string,
+        /**
+         * Borders of inputs, options and buttons.
+         */
+        border: string,
+        /**
+         * Borders while hovered.
+         */
+        borderHover: string,
+        /**
+         * Background of inputs.
+         */
+        input: string,
+        /**
+         * Background of selected options and hovered buttons.
+         */
+        selected: string,
+        /**
+         * Border of selected options, the progress bar and other highlights.
+         */
+        accent: string,
+        /**
+         * Empty part of progress bars.
+         */
+        track: string,
+        /**
+         * Links.
+         */
+        link: string,
+        /**
+         * Validation errors and the required asterisk.
+         */
+        error: string,
+        /**
+         * Overlay shown on top of a button while it is loading.
+         */
+        overlay: string
+    },
+    /**
+     * Corner radius of inputs, options and buttons, e.g. `0.25rem`.
+     */
+    radius: string,
+    /**
+     * Vertical space around each question, e.g. `0.75rem`.
+     */
+    spacing: string,
+    /**
+     * CSS `font-family` of the form.
+     */
+    fontFamily: string,
+    /**
+     * Base font size of the form, e.g. `1rem`.
+     */
+    fontSize: string,
+    /**
+     * CSS `filter` applied to the loading spinners, which are black by default.
+     */
+    spinnerFilter: string
+}
+
+/**
+ * The default look of the KM components.
+ */
+export const lightTheme: KMTheme = {
+    colors: {
+        background: "#ffffff",
+        text: "#000000",
+        muted: "#6b7280",
+        title: "#374151",
+        titleHover: "#9ca3af",
+        border: "#6b7280",
+        borderHover: "#000000",
+        input: "transparent",
+        selected: "#f3f4f6",
+        accent: "#000000",
+        track: "#e5e7eb",
+        link: "#60a5fa",
+        error: "#b91c1c",
+        overlay: "rgb(255 255 255 / 0.9)"
+    },
+    radius: "0.25rem",
+    spacing: "0.75rem",
+    fontFamily: "inherit",
+    fontSize: "1rem",
+    spinnerFilter: "none"
+}
+
+/**
+ * Dark variant of `lightTheme`.
+ */
+export const darkTheme: KMTheme = {
+    colors: {
+        background: "#111827",
+        text: "#f9fafb",
+        muted: "#9ca3af",
+        title: "#d1d5db",
+        titleHover: "#6b7280",
+        border: "#6b7280",
+        borderHover: "#f9fafb",
+        input: "#1f2937",
+        selected: "#374151",
+        accent: "#f9fafb",
+        track: "#374151",
+        link: "#93c5fd",
+        error: "#f87171",
+        overlay: "rgb(17 24 39 / 0.9)"
+    },
+    radius: "0.25rem",
+    spacing: "0.75rem",
+    fontFamily: "inherit",
+    fontSize: "1rem",
+    spinnerFilter: "invert(1)"
+}
+
+/**
+ * Overrides for some of the tokens of a theme.
+ */
+export type KMThemeOverrides = Partial<Omit<KMTheme, "colors">> & { colors?: Partial<KMTheme["colors"]> }
+
+/**
+ * Builds a theme by replacing some of the tokens of `base`, e.g. to apply a site's brand colours.
+ *
+ * @param base Usually `lightTheme` or `darkTheme`
+ * @param overrides Tokens to replace
+ * @example createTheme(darkTheme, { colors: { accent: "#e11d48" }, radius: "1rem" })
+ */
+export function createTheme(base: KMTheme, overrides: KMThemeOverrides): KMTheme {
+    return { ...base, ...overrides, colors: { ...base.colors, ...overrides.colors } }
+}
+
+/**
+ * Converts a theme into the CSS variables read by the KM components.
+ *
+ * Apply the result as the `style` of an element to theme everything inside it.
+ *
+ * @param theme
+ */
+export function themeStyle(theme: KMTheme): JSX.CSSProperties {
+    const style: JSX.CSSProperties = {
+        "--km-radius": theme.radius,
+        "--km-spacing": theme.spacing,
+        "--km-font-family": theme.fontFamily,
+        "--km-font-size": theme.fontSize,
+        "--km-spinner-filter": theme.spinnerFilter
+    }
+    for (const [name, value] of Object.entries(theme.colors)) {
+        style[`--km-color-${name.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase())}`] = value
+    }
+    return style
+}
@@ -0,0 +1,65 @@
+import { FileUploadSettings, UploadedFile } from "../components/KMTypes"
+import { en, Messages } from "./i18n"
+
+/**
+ * Reads the uploaded files stored in a file upload question's `QuestionResponse.value`.
+ *
+ * @param value `QuestionResponse.value` of a file upload question
+ * @returns The uploaded files, or an empty array if the value is empty or malformed.
+ * @see serializeUploads
+ */
+export function parseUploads(value: string): UploadedFile[] {
+    if (value.trim() == "") return []
+    try {
+        const parsed = JSON.parse(value)
+        return Array.isArray(parsed) ? parsed.filter((f) => typeof f?.id == "string") : []
+    } catch (e) {
+        return []
+    }
+}
+
+/**
+ * Writes uploaded files into the format stored in `QuestionResponse.value`.
+ *
+ * @param files
+ * @returns A JSON array of the files, or an empty string if there are none.
+ * @see parseUploads
+ */
+export function serializeUploads(files: UploadedFile[]): string {
+    return files.length == 0 ? "" : JSON.stringify(files.map((f) => ({ id: f.id, name: f.name, size: f.size, type: f.type })))
+}
+
+/**
+ * Checks a picked file against the limits of a question, before it is uploaded.
+ *
+ * @param file The file picked by the user
+ * @param settings Pass `question.files` here.
+ * @param messages Catalogue that the reason is taken from. Defaults to English.
+ * @returns The reason the file is rejected, or `undefined` if it can be uploaded.
+ */
+export function checkFile(file: File, settings?: FileUploadSettings, messages: Messages = en): string | undefined {
+    const accept = settings?.accept ?? []
+    if (accept.length > 0 && !accept.some((type) => mimeTypeMatches(file.type, type)))
+        return messages.fileTypeNotAccepted(file.name)
+    if (settings?.maxSize != undefined && file.size > settings.maxSize)
+        return messages.fileTooLarge(file.name, formatFileSize(settings.maxSize))
+    return undefined
+}
+
+/**
+ * Formats a file size in bytes for display, e.g. `2.5 MB`.
+ * @param bytes
+ */
+export function formatFileSize(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Compares a MIME type with an accepted type, which may end in a wildcard such as `image/*`.
+ */
+function mimeTypeMatches(type: string, accepted: string) {
+    if (accepted.endsWith("/*")) return type.startsWith(accepted.slice(0, -1))
+    return type == accepted
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import { QuestionType } from "../components/KMTypes"
+import { sv } from "./i18n"
+import { options, question } from "./test-fixtures"
+import { validateResponse, validateResponses } from "./validation"
+
+describe("validateResponse", () => {
+    it("only requires an answer to required questions", () => {
+        expect(validateResponse(question({ required: true }), " ")).toBe("This question is required.")
+        expect(validateResponse(question(), "")).toBeUndefined()
+    })
+
+    it("skips the rules of unanswered questions", () => {
+        expect(validateResponse(question({ validation: { minLength: 3 } }), "")).toBeUndefined()
+    })
+
+    it("checks the length of text answers", () => {
+        const name = question({ validation: { minLength: 2, maxLength: 4 } })
+        expect(validateResponse(name, "A")).toBe("Please write at least 2 characters.")
+        expect(validateResponse(name, "Adele")).toBe("Please write at most 4 characters.")
+        expect(validateResponse(name, "Ada")).toBeUndefined()
+    })
+
+    it("matches patterns against the whole answer", () => {
+        const code = question({ validation: { pattern: "[A-Z]{3}" } })
+        expect(validateResponse(code, "ABC")).toBeUndefined()
+        expect(validateResponse(code, "ABCD")).toBe("This answer is not in the expected format.")
+    })
+
+    it("shows the patternMessage in the current locale", () => {
+        const code = question({ validation: { pattern: "\\d+", patternMessage: { en: "Digits only", sv: "Bara siffror" } } })
+        expect(validateResponse(code, "x", sv, "sv")).toBe("Bara siffror")
+    })
+
+    it("ignores invalid patterns", () => {
+        expect(validateResponse(question({ validation: { pattern: "(" } }), "anything")).toBeUndefined()
+    })
+
+    it("checks the number of selected options", () => {
+        const colours = question({ type: QuestionType.multi, required: true, options: options("red", "green", "blue"), validation: { minSelections: 2, maxSelections: 2 } })
+        expect(validateResponse(colours, "")).toBe("Please select an option.")
+        expect(validateResponse(colours, "[\"red\"]")).toBe("Please select at least 2 options.")
+        expect(validateResponse(colours, "[\"red\",\"green\",\"blue\"]")).toBe("Please select at most 2 options.")
+        expect(validateResponse(colours, "[\"red\",\"blue\"]")).toBeUndefined()
+    })
+
+    it("accepts any answer to questions of unknown types", () => {
+        expect(validateResponse(question({ type: "Signature", required: true }), "")).toBeUndefined()
+    })
+
+    it("takes the messages from the given catalogue", () => {
+        expect(validateResponse(question({ required: true }), "", sv)).toBe(sv.required)
+    })
+})
+
+describe("validateResponse for dates, times, numbers and scales", () => {
+    it("rejects dates that don't exist", () => {
+        const date = question({ type: QuestionType.date })
+        expect(validateResponse(date, "2024-02-29")).toBeUndefined()
+        expect(validateResponse(date, "2023-02-29")).toBe("Please enter a valid date.")
+        expect(validateResponse(date, "2024-13-45")).toBe("Please enter a valid date.")
+        expect(validateResponse(date, "1 May 2024")).toBe("Please enter a valid date.")
+    })
+
+    it("rejects times outside of the day", () => {
+        const time = question({ type: QuestionType.time })
+        expect(validateResponse(time, "00:00")).toBeUndefined()
+        expect(validateResponse(time, "23:59")).toBeUndefined()
+        expect(validateResponse(time, "24:00")).toBe("Please enter a valid time.")
+        expect(validateResponse(time, "12:60")).toBe("Please enter a valid time.")
+    })
+
+    it("checks dates and times against earliest and latest", () => {
+        const date = question({ type: QuestionType.date, validation: { earliest: "2024-05-01", latest: "2024-05-31" } })
+        expect(validateResponse(date, "2024-04-30")).toBe("Please enter 2024-05-01 or later.")
+        expect(validateResponse(date, "2024-06-01")).toBe("Please enter 2024-05-31 or earlier.")
+        expect(validateResponse(date, "2024-05-31")).toBeUndefined()
+    })
+
+    it("checks numbers against min and max", () => {
+        const age = question({ type: QuestionType.number, validation: { min: 0, max: 120 } })
+        expect(validateResponse(age, "abc")).toBe("Please enter a number.")
+        expect(validateResponse(age, "-1")).toBe("Please enter a number no smaller than 0.")
+        expect(validateResponse(age, "121")).toBe("Please enter a number no larger than 120.")
+    })
+
+    it("accepts any number without a step", () => {
+        expect(validateResponse(question({ type: QuestionType.number }), "-2.5")).toBeUndefined()
+    })
+
+    it("suggests the closest numbers on the step, counted from min", () => {
+        const price = question({ type: QuestionType.number, step: 0.5, validation: { min: 0.25 } })
+        expect(validateResponse(price, "1.25")).toBeUndefined()
+        expect(validateResponse(price, "1")).toBe("Please enter a valid number. The closest ones are 0.75 and 1.25.")
+        expect(validateResponse(question({ type: QuestionType.number, step: 0.1 }), "0.3")).toBeUndefined()
+    })
+
+    it("only accepts the points of a scale", () => {
+        const rating = question({ type: QuestionType.scale, scale: { points: 5 } })
+        expect(validateResponse(rating, "5")).toBeUndefined()
+        expect(validateResponse(rating, "6")).toBe("Please pick a point on the scale.")
+        expect(validateResponse(rating, "2.5")).toBe("Please pick a point on the scale.")
+    })
+
+    it("checks dropdowns like other choice questions", () => {
+        const country = question({ type: QuestionType.dropdown, required: true, options: options("se", "no") })
+        expect(validateResponse(country, "")).toBe("Please select an option.")
+        expect(validateResponse(country, "[\"se\"]")).toBeUndefined()
+    })
+})
+
+describe("validateResponses", () => {
+    it("returns the errors of the invalid answers only", () => {
+        const questions = [question({ id: "name", required: true }), question({ id: "nickname" })]
+        expect(validateResponses(questions, [{ questionId: "nickname", value: "Ada" }])).toEqual({ name: "This question is required." })
+    })
+})
@@ -0,0 +1,182 @@
+import { Question, QuestionResponse, QuestionType } from "../components/KMTypes"
+import { parseSelection } from "./selection"
+import { parseUploads } from "./uploads"
+import { en, localise, Messages } from "./i18n"
+import { getQuestionRenderer } from "./registry"
+
+/**
+ * Returns `true` if the question is answered by picking options rather than typing.
+ * @param question
+ */
+export function isChoiceQuestion(question: Question) {
+    return question.type == QuestionType.single || question.type == QuestionType.multi ||
+        question.type == QuestionType.singleWithImage || question.type == QuestionType.multiWithImage ||
+        question.type == QuestionType.dropdown
+}
+
+/**
+ * Checks a single answer against `question.required` and `question.validation`.
+ *
+ * Rules in `question.validation` are only checked if the question has been answered. An empty answer is only an error
+ * if the question is required.
+ *
+ * Answers to question types added with `registerQuestionType` are checked by the renderer's `validate`. Questions of
+ * unknown types can't be answered, so they are always valid.
+ *
+ * @param question The question that was answered
+ * @param value `QuestionResponse.value` for the question
+ * @param messages Catalogue that the error messages are taken from. Defaults to English.
+ * @param locale Locale used for `patternMessage`
+ * @returns The error message to show under the question, or `undefined` if the answer is valid.
+ * @see `ValidationRules`
+ * @since 0.0.0
+ */
+export function validateResponse(question: Question, value: string, messages: Messages = en, locale: string = "en"): string | undefined {
+    const rules = question.validation ?? {}
+
+    const renderer = getQuestionRenderer(question.type)
+    if (renderer?.validate != undefined) {
+        if (value.trim() == "") return question.required ? messages.required : undefined
+        return renderer.validate(question, value, messages, locale)
+    }
+    if (renderer == undefined && !(Object.values(QuestionType) as string[]).includes(question.type)) return undefined
+
+    if (isChoiceQuestion(question)) {
+        const selected = parseSelection(value).length
+        if (selected == 0) return question.required ? messages.selectOption : undefined
+        if (rules.minSelections != undefined && selected < rules.minSelections)
+            return messages.minSelections(rules.minSelections)
+        if (rules.maxSelections != undefined && selected > rules.maxSelections)
+            return messages.maxSelections(rules.maxSelections)
+        return undefined
+    }
+
+    if (question.type == QuestionType.fileUpload) {
+        const files = parseUploads(value).length
+        const maxCount = question.files?.maxCount ?? 1
+        if (files == 0) return question.required ? messages.uploadRequired : undefined
+        if (files > maxCount) return messages.maxFiles(maxCount)
+        return undefined
+    }
+
+    if (value.trim() == "") return question.required ? messages.required : undefined
+
+    if (question.type == QuestionType.date || question.type == QuestionType.time) {
+        if (question.type == QuestionType.date && !isDate(value)) return messages.date
+        if (question.type == QuestionType.time && !isTime(value)) return messages.time
+        // Both formats are fixed-width, so comparing them as strings compares them chronologically.
+        if (rules.earliest != undefined && value < rules.earliest) return messages.earliest(rules.earliest)
+        if (rules.latest != undefined && value > rules.latest) return messages.latest(rules.latest)
+        return undefined
+    }
+
+    if (question.type == QuestionType.number && Number.isNaN(Number(value))) return messages.number
+
+    if (question.type == QuestionType.scale) {
+        const point = Number(value)
+        if (!Number.isInteger(point) || point < 1 || point > (question.scale?.points ?? 5)) return messages.scale
+        return undefined
+    }
+
+    if (rules.minLength != undefined && value.length < rules.minLength)
+        return messages.minLength(rules.minLength)
+    if (rules.maxLength != undefined && value.length > rules.maxLength)
+        return messages.maxLength(rules.maxLength)
+    if (rules.pattern != undefined && matchesPattern(rules.pattern, value) == false)
+        return localise(rules.patternMessage, locale) ?? messages.pattern
+
+    if (rules.min != undefined || rules.max != undefined) {
+        const number = Number(value)
+        if (Number.isNaN(number)) return messages.number
+        if (rules.min != undefined && number < rules.min) return messages.min(rules.min)
+        if (rules.max != undefined && number > rules.max) return messages.max(rules.max)
+    }
+
+    if (question.type == QuestionType.number && question.step != undefined) {
+        const closest = closestSteps(Number(value), question.step, rules.min ?? 0)
+        if (closest != undefined) return messages.step(closest[0], closest[1])
+    }
+
+    return undefined
+}
+
+/**
+ * Validates every answer in a form.
+ *
+ * @param questions Questions of the form, i.e. `TypeForm.questions`
+ * @param responses Current answers to the questions
+ * @param messages Catalogue that the error messages are taken from. Defaults to English.
+ * @param locale Locale used for `patternMessage`
+ * @returns Error messages keyed by `questionId`. Valid questions are not present in the returned object.
+ * @see validateResponse
+ */
+export function validateResponses(questions: Question[], responses: QuestionResponse[], messages: Messages = en, locale: string = "en") {
+    const errors: Record<string, string> = {}
+    for (const question of questions) {
+        const response = responses.find((r) => r.questionId == question.id)
+        const error = validateResponse(question, response?.value ?? "", messages, locale)
+        if (error != undefined) errors[question.id] = error
+    }
+    return errors
+}
+
+/**
+ * Checks that a number is `base` plus a whole number of `step`s, like the `step` attribute of a number input.
+ *
+ * Answers within a millionth of a step of an accepted number are accepted, so that e.g. `0.3` with a step of `0.1`
+ * isn't rejected because of floating-point rounding.
+ *
+ * @param value The answer
+ * @param step `Question.step`. Ignored unless it is positive.
+ * @param base `ValidationRules.min`, or `0` if there is none
+ * @returns The accepted numbers just below and above `value`, or `undefined` if `value` is accepted.
+ * @private
+ */
+function closestSteps(value: number, step: number, base: number): [number, number] | undefined {
+    if (!(step > 0)) return undefined
+    const steps = (value - base) / step
+    if (Math.abs(steps - Math.round(steps)) < 1e-6) return undefined
+
+    // Rounded to the precision of `step` and `base`, so that the suggestions don't show rounding errors either.
+    const decimals = Math.max(...[step, base].map((n) => n.toString().split(".")[1]?.length ?? 0))
+    const round = (n: number) => Number(n.toFixed(Math.min(decimals, 20)))
+    return [round(base + Math.floor(steps) * step), round(base + Math.ceil(steps) * step)]
+}
+
+/**
+ * Checks that a date answer is `YYYY-MM-DD` and exists in the calendar, so that e.g. `2024-02-30` is rejected.
+ * @private
+ */
+function isDate(value: string) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+    const date = new Date(`${value}T00:00:00Z`)
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) == value
+}
+
+/**
+ * Checks that a time answer is `HH:MM` between `00:00` and `23:59`.
+ * @private
+ */
+function isTime(value: string) {
+    const match = /^(\d{2}):(\d{2})$/.exec(value)
+    return match != null && Number(match[1]) < 24 && Number(match[2]) < 60
+}
+
+/**
+ * Tests a whole answer against `ValidationRules.pattern`.
+ *
+ * An invalid pattern is a mistake in the form rather than in the answer, so it is ignored instead of throwing.
+ * `parseForm` reports it for fetched forms and the form builder lists it.
+ *
+ * @returns `undefined` if `pattern` is not a valid regular expression.
+ * @private
+ */
+function matchesPattern(pattern: string, value: string): boolean | undefined {
+    let regex: RegExp
+    try {
+        regex = new RegExp(`^(?:${pattern})$`)
+    } catch (e) {
+        return undefined
+    }
+    return regex.test(value)
+}
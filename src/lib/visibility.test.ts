@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { QuestionType } from "../components/KMTypes"
+import { isQuestionVisible } from "./visibility"
+import { options, question } from "./test-fixtures"
+
+const questions = [
+    question({ id: "pet", type: QuestionType.single, options: options("cat", "dog") }),
+    question({ id: "toys", type: QuestionType.multi, options: options("ball", "rope") }),
+    question({ id: "name" }),
+    question({ id: "dogName", visibleWhen: { questionId: "pet", equals: "dog" } }),
+    question({ id: "breed", visibleWhen: { questionId: "dogName", notEmpty: true } })
+]
+
+/**
+ * Checks whether the question `id` of `form` is shown with `answers`.
+ */
+function visible(id: string, answers: Record<string, string>, form = questions) {
+    const target = form.find((q) => q.id == id)!
+    return isQuestionVisible(target, form, (questionId) => answers[questionId])
+}
+
+describe("isQuestionVisible", () => {
+    it("shows questions without a rule", () => {
+        expect(visible("name", {})).toBe(true)
+    })
+
+    it("compares the selected option of choice questions", () => {
+        expect(visible("dogName", { pet: "[\"dog\"]" })).toBe(true)
+        expect(visible("dogName", { pet: "[\"cat\"]" })).toBe(false)
+        expect(visible("dogName", {})).toBe(false)
+    })
+
+    it("checks single options of multi-choice questions with includes", () => {
+        const rope = [...questions, question({ id: "rope", visibleWhen: { questionId: "toys", includes: "rope" } })]
+        expect(visible("rope", { toys: "[\"ball\",\"rope\"]" }, rope)).toBe(true)
+        expect(visible("rope", { toys: "[\"ball\"]" }, rope)).toBe(false)
+    })
+
+    it("compares text answers as text", () => {
+        const greeting = [...questions, question({ id: "greeting", visibleWhen: { questionId: "name", includes: "Ada" } })]
+        expect(visible("greeting", { name: "Ada Lovelace" }, greeting)).toBe(true)
+        expect(visible("greeting", { name: "Grace" }, greeting)).toBe(false)
+    })
+
+    it("treats the answers of hidden questions as empty", () => {
+        expect(visible("breed", { pet: "[\"dog\"]", dogName: "Rex" })).toBe(true)
+        expect(visible("breed", { pet: "[\"cat\"]", dogName: "Rex" })).toBe(false)
+    })
+
+    it("combines rules with all and any", () => {
+        const combined = [
+            ...questions,
+            question({ id: "both", visibleWhen: { all: [{ questionId: "pet", equals: "dog" }, { questionId: "name", notEmpty: true }] } }),
+            question({ id: "either", visibleWhen: { any: [{ questionId: "pet", equals: "dog" }, { questionId: "name", notEmpty: true }] } })
+        ]
+        expect(visible("both", { pet: "[\"dog\"]" }, combined)).toBe(false)
+        expect(visible("both", { pet: "[\"dog\"]", name: "Ada" }, combined)).toBe(true)
+        expect(visible("either", { name: "Ada" }, combined)).toBe(true)
+        expect(visible("either", {}, combined)).toBe(false)
+    })
+
+    it("hides questions whose rule refers to a missing question", () => {
+        const missing = [question({ id: "orphan", visibleWhen: { questionId: "missing", notEmpty: true } })]
+        expect(visible("orphan", { missing: "x" }, missing)).toBe(false)
+    })
+
+    it("hides questions whose rules depend on each other instead of looping", () => {
+        const cycle = [
+            question({ id: "a", visibleWhen: { questionId: "b", notEmpty: true } }),
+            question({ id: "b", visibleWhen: { questionId: "a", notEmpty: true } }),
+            question({ id: "self", visibleWhen: { questionId: "self", notEmpty: true } })
+        ]
+        expect(visible("a", { a: "x", b: "x" }, cycle)).toBe(false)
+        expect(visible("self", { self: "x" }, cycle)).toBe(false)
+    })
+})
@@ -0,0 +1,54 @@
+import { Question, VisibilityRule } from "../components/KMTypes"
+import { parseSelection } from "./selection"
+import { isChoiceQuestion } from "./validation"
+
+/**
+ * Decides whether a question should be shown, based on its `visibleWhen` rule and the current answers.
+ *
+ * The answer to a hidden question is treated as empty, so a question that depends on a hidden question is evaluated
+ * as if that question was never answered. Rules that refer to questions that don't exist are never met.
+ *
+ * This function is reactive if `valueOf` reads from a store or a signal.
+ *
+ * @param question The question to check
+ * @param questions Every question in the form, i.e. `TypeForm.questions`
+ * @param valueOf Returns the current `QuestionResponse.value` of a question
+ * @see VisibilityRule
+ * @since 0.0.0
+ */
+export function isQuestionVisible(question: Question, questions: Question[], valueOf: (questionId: string) => string | undefined): boolean {
+    return isVisible(question, questions, valueOf, [])
+}
+
+function isVisible(question: Question, questions: Question[], valueOf: (questionId: string) => string | undefined, visiting: string[]): boolean {
+    if (question.visibleWhen == undefined) return true
+    // A question whose visibility depends on itself is hidden instead of looping forever.
+    if (visiting.includes(question.id)) return false
+
+    const answerTo = (questionId: string) => {
+        const target = questions.find((q) => q.id == questionId)
+        if (target == undefined || !isVisible(target, questions, valueOf, [...visiting, question.id])) return undefined
+        return { question: target, value: valueOf(questionId) ?? "" }
+    }
+
+    return evaluateRule(question.visibleWhen, answerTo)
+}
+
+function evaluateRule(rule: VisibilityRule, answerTo: (questionId: string) => { question: Question, value: string } | undefined): boolean {
+    if ("all" in rule) return rule.all.every((r) => evaluateRule(r, answerTo))
+    if ("any" in rule) return rule.any.some((r) => evaluateRule(r, answerTo))
+
+    const answer = answerTo(rule.questionId)
+    if (answer == undefined) return false
+
+    if (isChoiceQuestion(answer.question)) {
+        const selected = parseSelection(answer.value)
+        if ("equals" in rule) return selected.length == 1 && selected[0] == rule.equals
+        if ("includes" in rule) return selected.includes(rule.includes)
+        return selected.length > 0
+    }
+
+    if ("equals" in rule) return answer.value == rule.equals
+    if ("includes" in rule) return answer.value.includes(rule.includes)
+    return answer.value.trim() != ""
+}
@@ -5,7 +5,39 @@ module.exports = {
     "./node_modules/**/*.{js,jsx,ts,tsx}",
   ],
   theme: {
-    extend: {},
+    extend: {
+      // Design tokens of the KM components. The values are set by `themeStyle` in `src/lib/theme.ts`.
+      colors: {
+        km: {
+          background: "var(--km-color-background)",
+          text: "var(--km-color-text)",
+          muted: "var(--km-color-muted)",
+          title: "var(--km-color-title)",
+          "title-hover": "var(--km-color-title-hover)",
+          border: "var(--km-color-border)",
+          "border-hover": "var(--km-color-border-hover)",
+          input: "var(--km-color-input)",
+          selected: "var(--km-color-selected)",
+          accent: "var(--km-color-accent)",
+          track: "var(--km-color-track)",
+          link: "var(--km-color-link)",
+          error: "var(--km-color-error)",
+          overlay: "var(--km-color-overlay)",
+        },
+      },
+      borderRadius: {
+        km: "var(--km-radius)",
+      },
+      spacing: {
+        km: "var(--km-spacing)",
+      },
+      fontFamily: {
+        km: "var(--km-font-family)",
+      },
+      fontSize: {
+        "km-base": "var(--km-font-size)",
+      },
+    },
   },
   plugins: [],
-}
\ No newline at end of file
+}
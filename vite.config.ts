@@ -1,5 +1,7 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
+import mockBackend from './mock/mock-backend';
 // import devtools from 'solid-devtools/vite';
 
 export default defineConfig({
@@ -10,6 +12,7 @@ export default defineConfig({
     */
     // devtools(),
     solidPlugin(),
+    mockBackend(),
   ],
   server: {
     port: 3000,
@@ -17,4 +20,8 @@ export default defineConfig({
   build: {
     target: 'esnext',
   },
+  test: {
+    // The form primitives read localStorage, crypto and location like they do in the browser.
+    environment: 'jsdom',
+  },
 });
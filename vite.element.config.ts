@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite';
+import solidPlugin from 'vite-plugin-solid';
+
+/*
+Builds `<km-form>` as a standalone bundle that any page can load with a script tag.
+Solid and the styles are included in the bundle. See `src/km-form.tsx`.
+*/
+export default defineConfig({
+  plugins: [
+    solidPlugin(),
+  ],
+  build: {
+    target: 'es2020',
+    outDir: 'dist/element',
+    lib: {
+      entry: 'src/km-form.tsx',
+      name: 'KMForm',
+      formats: ['iife', 'es'],
+      fileName: (format) => `km-form.${format}.js`,
+    },
+  },
+});